@@ -3,16 +3,24 @@ jest.mock('node-fetch', () => {
   return jest.fn();
 });
 
+const mockProvider = {
+  getMailingLists: jest.fn(),
+};
+
+jest.mock('../provider', () => ({
+  ...jest.requireActual('../provider'),
+  getProvider: () => mockProvider,
+}));
+
 import request from 'supertest';
 import { app } from '../api';
 import * as subscription from '../subscription';
-import * as loops from '../loops';
 import * as captcha from '../captcha';
 import * as jwt from '../jwt';
 import { HttpError } from '../error';
+import { getCache } from '../cache';
 
 jest.mock('../subscription');
-jest.mock('../loops');
 jest.mock('../captcha');
 jest.mock('../jwt');
 
@@ -91,7 +99,7 @@ describe('API routes', () => {
         { id: 'list-1', name: 'Newsletter', description: 'Main newsletter', isPublic: true },
       ];
 
-      (loops.getMailingLists as jest.Mock).mockResolvedValue(mockLists);
+      (mockProvider.getMailingLists as jest.Mock).mockResolvedValue(mockLists);
 
       const response = await request(app)
         .get('/api/lists')
@@ -125,6 +133,19 @@ describe('API routes', () => {
       });
     });
 
+    it('should validate form properties against the form schema', async () => {
+      const response = await request(app)
+        .post('/api/subscription')
+        .send({
+          email: 'test@example.com',
+          mailingLists: [],
+          firstName: { first: 'Jane' },
+        });
+
+      expect(response.body).toEqual({ success: false, error: 'request/body/firstName must be string' });
+      expect(subscription.subscribe).not.toHaveBeenCalled();
+    });
+
     it('should return 429 when CAPTCHA fails', async () => {
       (subscription.subscribe as jest.Mock).mockRejectedValue(
         new HttpError({
@@ -178,9 +199,102 @@ describe('API routes', () => {
     });
   });
 
+  describe('GET /api/subscription/export', () => {
+    it('should download data of the token subject', async () => {
+      (jwt.authenticateToken as jest.Mock).mockReturnValue({ email: 'test@example.com', scope: 'manage' });
+      (subscription.exportSubscription as jest.Mock).mockResolvedValue({
+        exportedAt: '2026-10-19T12:00:00.000Z',
+        email: 'test@example.com',
+        subscribed: true,
+        optInStatus: 'accepted',
+        properties: { firstName: 'Jane' },
+        mailingLists: [],
+        consent: [],
+      });
+
+      const response = await request(app)
+        .get('/api/subscription/export')
+        .set('Authorization', 'Bearer valid-token')
+        .expect(200);
+
+      expect(response.headers['content-disposition']).toBe('attachment; filename="subscription-data.json"');
+      expect(response.body.properties).toEqual({ firstName: 'Jane' });
+      expect(jwt.authenticateToken).toHaveBeenCalledWith(expect.anything(), { scopes: ['confirm', 'manage'] });
+      expect(subscription.exportSubscription).toHaveBeenCalledWith('test@example.com');
+    });
+
+    it('should reject mailing list link tokens', async () => {
+      (jwt.authenticateToken as jest.Mock).mockReturnValue({ email: 'test@example.com', scope: 'manage', listLink: { list: 'list-1', action: 'subscribe' } });
+
+      const response = await request(app)
+        .get('/api/subscription/export')
+        .set('Authorization', 'Bearer list-token')
+        .expect(403);
+
+      expect(response.body.reason).toBe('list-link');
+      expect(subscription.exportSubscription).not.toHaveBeenCalled();
+    });
+
+    it('should reject used confirmation tokens', async () => {
+      (jwt.authenticateToken as jest.Mock).mockReturnValue({ email: 'test@example.com', scope: 'confirm', jti: 'token-id' });
+      (jwt.checkTokenUnused as jest.Mock).mockRejectedValueOnce(new HttpError({ statusCode: 401, reason: 'used-token', message: 'Unauthorized' }));
+
+      await request(app)
+        .get('/api/subscription/export')
+        .set('Authorization', 'Bearer used-token')
+        .expect(401);
+
+      expect(subscription.exportSubscription).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('DELETE /api/subscription', () => {
+    it('should delete the token subject', async () => {
+      (jwt.authenticateToken as jest.Mock).mockReturnValue({ email: 'test@example.com', scope: 'manage' });
+      (subscription.deleteSubscription as jest.Mock).mockResolvedValue({ success: true, email: 'test@example.com', suppressed: false });
+
+      const response = await request(app)
+        .delete('/api/subscription')
+        .set('Authorization', 'Bearer valid-token')
+        .expect(200);
+
+      expect(response.body).toEqual({ success: true, email: 'test@example.com', suppressed: false });
+      expect(jwt.authenticateToken).toHaveBeenCalledWith(expect.anything(), { scopes: ['confirm', 'manage'] });
+      expect(subscription.deleteSubscription).toHaveBeenCalledWith('test@example.com');
+    });
+
+    it('should reject mailing list link tokens', async () => {
+      (jwt.authenticateToken as jest.Mock).mockReturnValue({ email: 'test@example.com', scope: 'manage', listLink: { list: 'list-1', action: 'unsubscribe' } });
+
+      await request(app)
+        .delete('/api/subscription')
+        .set('Authorization', 'Bearer list-token')
+        .expect(403);
+
+      expect(subscription.deleteSubscription).not.toHaveBeenCalled();
+    });
+
+    it('should reject used confirmation tokens', async () => {
+      (jwt.authenticateToken as jest.Mock).mockReturnValue({ email: 'test@example.com', scope: 'confirm', jti: 'token-id' });
+      (jwt.checkTokenUnused as jest.Mock).mockRejectedValueOnce(new HttpError({ statusCode: 401, reason: 'used-token', message: 'Unauthorized' }));
+
+      const response = await request(app)
+        .delete('/api/subscription')
+        .set('Authorization', 'Bearer used-token')
+        .expect(401);
+
+      expect(response.body.reason).toBe('used-token');
+      expect(subscription.deleteSubscription).not.toHaveBeenCalled();
+    });
+  });
+
   describe('PUT /api/subscription', () => {
+    beforeEach(() => {
+      (subscription.getRootUrl as jest.Mock).mockReturnValue(new URL('https://example.com'));
+    });
+
     it('should update subscription with valid token', async () => {
-      (jwt.authenticate as jest.Mock).mockReturnValue('test@example.com');
+      (jwt.authenticateToken as jest.Mock).mockReturnValue({ email: 'test@example.com', scope: 'manage' });
       (subscription.updateSubscription as jest.Mock).mockResolvedValue({
         success: true,
         email: 'test@example.com',
@@ -199,8 +313,142 @@ describe('API routes', () => {
       expect(response.body.subscribed).toBe(true);
     });
 
+    it('should require confirm or manage scope to subscribe', async () => {
+      (jwt.authenticateToken as jest.Mock).mockReturnValue({ email: 'test@example.com', scope: 'manage' });
+
+      await request(app)
+        .put('/api/subscription')
+        .set('Authorization', 'Bearer valid-token')
+        .send({ email: 'test@example.com', subscribe: true, mailingLists: { 'list-1': true } });
+
+      expect(jwt.authenticateToken).toHaveBeenCalledWith(expect.anything(), { scopes: ['confirm', 'manage'] });
+    });
+
+    it('should accept any scope to unsubscribe', async () => {
+      (jwt.authenticateToken as jest.Mock).mockReturnValue({ email: 'test@example.com', scope: 'manage' });
+
+      await request(app)
+        .put('/api/subscription')
+        .set('Authorization', 'Bearer unsubscribe-token')
+        .send({ email: 'test@example.com', subscribe: false });
+
+      expect(jwt.authenticateToken).toHaveBeenCalledWith(expect.anything(), { scopes: jwt.TOKEN_SCOPES });
+    });
+
+    it('should reject confirmation failing the CAPTCHA check', async () => {
+      (jwt.authenticateToken as jest.Mock).mockReturnValue({ email: 'test@example.com', scope: 'confirm', jti: 'token-id', generation: 0 });
+      (subscription.verifyConfirmation as jest.Mock).mockRejectedValueOnce(new HttpError({ statusCode: 429, reason: 'captcha-failed', message: 'Try again later' }));
+
+      await request(app)
+        .put('/api/subscription')
+        .set('Authorization', 'Bearer confirm-token')
+        .send({ email: 'test@example.com', subscribe: true, captchaToken: 'captcha-token' })
+        .expect(429);
+
+      expect(subscription.verifyConfirmation).toHaveBeenCalledWith(expect.objectContaining({ captchaToken: 'captcha-token' }), expect.anything());
+      expect(jwt.consumeToken).not.toHaveBeenCalled();
+      expect(subscription.updateSubscription).not.toHaveBeenCalled();
+    });
+
+    it('should limit list link to its mailing list', async () => {
+      const listLink = { list: 'list-1', action: 'unsubscribe' };
+      (jwt.authenticateToken as jest.Mock).mockReturnValue({ email: 'test@example.com', scope: 'manage', generation: 0, listLink });
+      (subscription.authorizeListLink as jest.Mock).mockRejectedValue(new HttpError({ statusCode: 403, reason: 'list-link', message: 'Forbidden' }));
+
+      await request(app)
+        .put('/api/subscription')
+        .set('Authorization', 'Bearer list-token')
+        .send({ email: 'test@example.com', subscribe: true, mailingLists: { 'list-2': false } })
+        .expect(403);
+
+      expect(subscription.authorizeListLink).toHaveBeenCalledWith(listLink, expect.objectContaining({ mailingLists: { 'list-2': false } }));
+      expect(subscription.updateSubscription).not.toHaveBeenCalled();
+    });
+
+    it('should let list link unsubscribe from all lists', async () => {
+      (jwt.authenticateToken as jest.Mock).mockReturnValue({ email: 'test@example.com', scope: 'manage', generation: 0, listLink: { list: 'list-1', action: 'unsubscribe' } });
+      (subscription.updateSubscription as jest.Mock).mockResolvedValue({ success: true, email: 'test@example.com', subscribed: false });
+
+      await request(app)
+        .put('/api/subscription')
+        .set('Authorization', 'Bearer list-token')
+        .send({ email: 'test@example.com', subscribe: false })
+        .expect(200);
+
+      expect(subscription.authorizeListLink).not.toHaveBeenCalled();
+    });
+
+    it('should consume confirmation token and return a management token', async () => {
+      const claims = { email: 'test@example.com', scope: 'confirm', jti: 'token-id', generation: 2 };
+      (jwt.authenticateToken as jest.Mock).mockReturnValue(claims);
+      (jwt.createToken as jest.Mock).mockReturnValue('manage-token');
+      (subscription.getRootUrl as jest.Mock).mockReturnValue(new URL('https://example.com'));
+      (subscription.updateSubscription as jest.Mock).mockResolvedValue({
+        success: true,
+        email: 'test@example.com',
+        subscribed: true,
+      });
+
+      const response = await request(app)
+        .put('/api/subscription')
+        .set('Authorization', 'Bearer confirm-token')
+        .send({ email: 'test@example.com', subscribe: true })
+        .expect(200);
+
+      expect(jwt.consumeToken).toHaveBeenCalledWith(claims);
+      expect(jwt.createToken).toHaveBeenCalledWith('test@example.com', new URL('https://example.com'), 'manage', 2);
+      expect(response.body.token).toBe('manage-token');
+    });
+
+    it('should reject used confirmation token', async () => {
+      (jwt.authenticateToken as jest.Mock).mockReturnValue({ email: 'test@example.com', scope: 'confirm', jti: 'token-id' });
+      (jwt.consumeToken as jest.Mock).mockRejectedValue(new HttpError({ statusCode: 401, reason: 'used-token', message: 'Unauthorized' }));
+
+      const response = await request(app)
+        .put('/api/subscription')
+        .set('Authorization', 'Bearer confirm-token')
+        .send({ email: 'test@example.com', subscribe: true })
+        .expect(401);
+
+      expect(response.body.reason).toBe('used-token');
+      expect(subscription.updateSubscription).not.toHaveBeenCalled();
+    });
+
+    it('should release confirmation token when the update fails', async () => {
+      const claims = { email: 'test@example.com', scope: 'confirm', jti: 'token-id' };
+      (jwt.authenticateToken as jest.Mock).mockReturnValue(claims);
+      (jwt.consumeToken as jest.Mock).mockResolvedValue(undefined);
+      (subscription.updateSubscription as jest.Mock).mockRejectedValue(new HttpError({ statusCode: 503, message: 'Service Unavailable' }));
+
+      await request(app)
+        .put('/api/subscription')
+        .set('Authorization', 'Bearer confirm-token')
+        .send({ email: 'test@example.com', subscribe: true })
+        .expect(503);
+
+      expect(jwt.releaseToken).toHaveBeenCalledWith(claims);
+    });
+
+    it('should not consume confirmation token to unsubscribe', async () => {
+      (jwt.authenticateToken as jest.Mock).mockReturnValue({ email: 'test@example.com', scope: 'confirm', jti: 'token-id' });
+      (subscription.updateSubscription as jest.Mock).mockResolvedValue({
+        success: true,
+        email: 'test@example.com',
+        subscribed: false,
+      });
+
+      const response = await request(app)
+        .put('/api/subscription')
+        .set('Authorization', 'Bearer confirm-token')
+        .send({ email: 'test@example.com', subscribe: false })
+        .expect(200);
+
+      expect(jwt.consumeToken).not.toHaveBeenCalled();
+      expect(response.body.token).toBeUndefined();
+    });
+
     it('should return 403 when email does not match token', async () => {
-      (jwt.authenticate as jest.Mock).mockReturnValue('token@example.com');
+      (jwt.authenticateToken as jest.Mock).mockReturnValue({ email: 'token@example.com', scope: 'manage' });
 
       await request(app)
         .put('/api/subscription')
@@ -213,6 +461,199 @@ describe('API routes', () => {
     });
   });
 
+  describe('POST /api/subscription/refresh', () => {
+    it('should send a new link to the subject of an expired token', async () => {
+      (jwt.authenticate as jest.Mock).mockReturnValue('expired@example.com');
+      (subscription.refreshLink as jest.Mock).mockResolvedValue({
+        success: true,
+        email: 'expired@example.com',
+      });
+
+      const response = await request(app)
+        .post('/api/subscription/refresh')
+        .set('Authorization', 'Bearer expired-token')
+        .expect(200);
+
+      expect(response.body).toEqual({ success: true, email: 'expired@example.com' });
+      expect(jwt.authenticate).toHaveBeenCalledWith(expect.anything(), { ignoreExpiration: true });
+      expect(subscription.refreshLink).toHaveBeenCalledWith('expired@example.com', expect.anything());
+    });
+
+    it('should limit links per address', async () => {
+      (jwt.authenticate as jest.Mock).mockReturnValue('limited@example.com');
+      (subscription.refreshLink as jest.Mock).mockResolvedValue({
+        success: true,
+        email: 'limited@example.com',
+      });
+
+      for (let i = 0; i < 3; i++) {
+        await request(app).post('/api/subscription/refresh').set('Authorization', 'Bearer expired-token').expect(200);
+      }
+      await request(app).post('/api/subscription/refresh').set('Authorization', 'Bearer expired-token').expect(429);
+
+      (jwt.authenticate as jest.Mock).mockReturnValue('other@example.com');
+      await request(app).post('/api/subscription/refresh').set('Authorization', 'Bearer other-token').expect(200);
+      expect(subscription.refreshLink).toHaveBeenCalledTimes(4);
+    });
+
+    it('should return 401 when token is invalid', async () => {
+      (jwt.authenticate as jest.Mock).mockImplementation(() => {
+        throw new HttpError({
+          statusCode: 401,
+          message: 'Unauthorized',
+          reason: 'invalid-token',
+        });
+      });
+
+      await request(app)
+        .post('/api/subscription/refresh')
+        .set('Authorization', 'Bearer forged-token')
+        .expect(401);
+      expect(subscription.refreshLink).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /api/session', () => {
+    it('should exchange link token for a session', async () => {
+      const claims = { email: 'test@example.com', scope: 'confirm', jti: 'token-id', generation: 0, session: false };
+      const expiresAt = new Date('2026-01-01T01:00:00.000Z');
+      (jwt.authenticateToken as jest.Mock).mockReturnValue(claims);
+      (jwt.createSession as jest.Mock).mockReturnValue({ token: 'session-token', expiresAt });
+      (subscription.getRootUrl as jest.Mock).mockReturnValue(new URL('https://example.com'));
+
+      const response = await request(app)
+        .post('/api/session')
+        .set('Authorization', 'Bearer link-token')
+        .expect(200);
+
+      expect(response.body).toEqual({ success: true, token: 'session-token', expiresAt: '2026-01-01T01:00:00.000Z' });
+      expect(jwt.createSession).toHaveBeenCalledWith(claims, new URL('https://example.com'));
+    });
+
+    it('should not extend a session', async () => {
+      (jwt.authenticateToken as jest.Mock).mockReturnValue({ email: 'test@example.com', scope: 'manage', generation: 0, session: true });
+
+      const response = await request(app)
+        .post('/api/session')
+        .set('Authorization', 'Bearer session-token')
+        .expect(403);
+
+      expect(response.body.reason).toBe('session-token');
+      expect(jwt.createSession).not.toHaveBeenCalled();
+    });
+
+    it('should not open a session with a used confirmation token', async () => {
+      (jwt.authenticateToken as jest.Mock).mockReturnValue({ email: 'test@example.com', scope: 'confirm', jti: 'token-id', generation: 0, session: false });
+      (jwt.checkTokenUnused as jest.Mock).mockRejectedValueOnce(new HttpError({ statusCode: 401, reason: 'used-token', message: 'Unauthorized' }));
+
+      await request(app)
+        .post('/api/session')
+        .set('Authorization', 'Bearer used-token')
+        .expect(401);
+
+      expect(jwt.createSession).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /api/subscription/revoke', () => {
+    it('should revoke links of the token subject', async () => {
+      (jwt.authenticateToken as jest.Mock).mockReturnValue({ email: 'test@example.com', scope: 'manage' });
+      (subscription.revokeLinks as jest.Mock).mockResolvedValue({ success: true, email: 'test@example.com', linkSent: true });
+
+      const response = await request(app)
+        .post('/api/subscription/revoke')
+        .set('Authorization', 'Bearer valid-token')
+        .expect(200);
+
+      expect(response.body).toEqual({ success: true, email: 'test@example.com', linkSent: true });
+      expect(jwt.authenticateToken).toHaveBeenCalledWith(expect.anything(), { scopes: ['confirm', 'manage'] });
+      expect(subscription.revokeLinks).toHaveBeenCalledWith('test@example.com', expect.anything());
+    });
+
+    it('should reject mailing list link tokens', async () => {
+      (jwt.authenticateToken as jest.Mock).mockReturnValue({ email: 'test@example.com', scope: 'manage', listLink: { list: 'list-1', action: 'unsubscribe' } });
+
+      await request(app)
+        .post('/api/subscription/revoke')
+        .set('Authorization', 'Bearer list-token')
+        .expect(403);
+
+      expect(subscription.revokeLinks).not.toHaveBeenCalled();
+    });
+
+    it('should reject used confirmation tokens', async () => {
+      (jwt.authenticateToken as jest.Mock).mockReturnValue({ email: 'test@example.com', scope: 'confirm', jti: 'token-id' });
+      (jwt.checkTokenUnused as jest.Mock).mockRejectedValueOnce(new HttpError({ statusCode: 401, reason: 'used-token', message: 'Unauthorized' }));
+
+      await request(app)
+        .post('/api/subscription/revoke')
+        .set('Authorization', 'Bearer used-token')
+        .expect(401);
+
+      expect(subscription.revokeLinks).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /api/admin/contacts/:email/revoke', () => {
+    const originalSecret = process.env.ADMIN_SECRET;
+
+    afterEach(() => {
+      process.env.ADMIN_SECRET = originalSecret;
+    });
+
+    it('should be disabled without ADMIN_SECRET', async () => {
+      delete process.env.ADMIN_SECRET;
+
+      await request(app)
+        .post('/api/admin/contacts/test%40example.com/revoke')
+        .set('Authorization', 'Bearer admin-secret')
+        .expect(403);
+      expect(subscription.revokeLinks).not.toHaveBeenCalled();
+    });
+
+    it('should revoke links without sending a new one', async () => {
+      process.env.ADMIN_SECRET = 'admin-secret';
+      (subscription.revokeLinks as jest.Mock).mockResolvedValue({ success: true, email: 'test@example.com', linkSent: false });
+
+      const response = await request(app)
+        .post('/api/admin/contacts/test%40example.com/revoke')
+        .set('Authorization', 'Bearer admin-secret')
+        .expect(200);
+
+      expect(response.body.linkSent).toBe(false);
+      expect(subscription.revokeLinks).toHaveBeenCalledWith('test@example.com', expect.anything(), { sendLink: false });
+    });
+  });
+
+  describe('DELETE /api/admin/cache', () => {
+    const originalSecret = process.env.ADMIN_SECRET;
+
+    afterEach(() => {
+      process.env.ADMIN_SECRET = originalSecret;
+    });
+
+    it('should require the admin secret', async () => {
+      process.env.ADMIN_SECRET = 'admin-secret';
+
+      await request(app)
+        .delete('/api/admin/cache')
+        .set('Authorization', 'Bearer wrong-secret')
+        .expect(401);
+    });
+
+    it('should purge cached lookups', async () => {
+      process.env.ADMIN_SECRET = 'admin-secret';
+      await getCache().get('loops/mailing-lists', async () => []);
+
+      const response = await request(app)
+        .delete('/api/admin/cache')
+        .set('Authorization', 'Bearer admin-secret')
+        .expect(200);
+
+      expect(response.body).toEqual({ success: true, purged: 1, cache: 'memory' });
+    });
+  });
+
   describe('POST /api/honeypot', () => {
     it('should return success for honeypot requests', async () => {
       const consoleSpy = jest.spyOn(console, 'log').mockImplementation();
@@ -241,6 +682,16 @@ describe('API routes', () => {
       expect(response.headers['access-control-allow-origin']).toBe('http://localhost:3000');
       expect(response.headers['vary']).toBe('Origin');
     });
+
+    it('should allow deleting the subscription cross-origin', async () => {
+      const response = await request(app)
+        .options('/api/subscription')
+        .set('Origin', 'http://localhost:3000')
+        .set('Access-Control-Request-Method', 'DELETE')
+        .expect(204);
+
+      expect(response.headers['access-control-allow-methods']).toContain('DELETE');
+    });
   });
 });
 
@@ -0,0 +1,88 @@
+import { Cache } from '../cache';
+import { MemoryStore } from '../store';
+
+describe('Cache', () => {
+  const config = { ttl: 1000, staleWhileRevalidate: 5000 };
+  let store: MemoryStore;
+  let now: number;
+  let cache: Cache;
+
+  beforeEach(() => {
+    store = new MemoryStore();
+    now = Date.parse('2026-02-01T00:00:00Z');
+    cache = new Cache(store, config, () => now);
+  });
+
+  it('should return fresh value without loading', async () => {
+    await cache.get('lists', async () => ['list-1']);
+    const load = jest.fn();
+
+    now += 999;
+
+    expect(await cache.get('lists', load)).toEqual(['list-1']);
+    expect(load).not.toHaveBeenCalled();
+  });
+
+  it('should return stale value and revalidate it in the background', async () => {
+    await cache.get('lists', async () => ['list-1']);
+    now += 1000;
+    let resolve: (value: string[]) => void = () => {};
+    const load = jest.fn(() => new Promise<string[]>((r) => resolve = r));
+
+    expect(await cache.get('lists', load)).toEqual(['list-1']);
+    expect(load).toHaveBeenCalledTimes(1);
+
+    resolve(['list-1', 'list-2']);
+    await new Promise(process.nextTick);
+
+    expect(await cache.get('lists', load)).toEqual(['list-1', 'list-2']);
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep stale value when revalidation fails', async () => {
+    await cache.get('lists', async () => ['list-1']);
+    now += 1000;
+    const warn = jest.spyOn(console, 'warn').mockImplementation();
+
+    expect(await cache.get('lists', () => Promise.reject(new Error('Loops is down')))).toEqual(['list-1']);
+    await new Promise(process.nextTick);
+
+    expect(warn).toHaveBeenCalled();
+    expect(await cache.get('lists', jest.fn())).toEqual(['list-1']);
+    warn.mockRestore();
+  });
+
+  it('should load expired value before returning', async () => {
+    await cache.get('lists', async () => ['list-1']);
+    now += 6000;
+
+    expect(await cache.get('lists', async () => ['list-2'])).toEqual(['list-2']);
+  });
+
+  it('should merge concurrent loads', async () => {
+    const load = jest.fn(async () => ['list-1']);
+
+    await Promise.all([cache.get('lists', load), cache.get('lists', load)]);
+
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  it('should share values through the store', async () => {
+    await cache.get('lists', async () => ['list-1']);
+    const other = new Cache(store, config, () => now);
+    const load = jest.fn();
+
+    expect(await other.get('lists', load)).toEqual(['list-1']);
+    expect(load).not.toHaveBeenCalled();
+  });
+
+  it('should purge cached values only', async () => {
+    await cache.get('lists', async () => ['list-1']);
+    await cache.get('emails', async () => []);
+    await store.set('migrations/state', { version: 1 });
+
+    expect(await cache.purge()).toBe(2);
+
+    expect(await store.list()).toEqual(['migrations/state']);
+  });
+});
@@ -19,8 +19,14 @@ describe('captcha', () => {
     it('should return correct configuration', () => {
       jest.mocked(config.loadConfiguration).mockReturnValue({
         company: { name: 'Test Company', address: '123 Test St', logo: 'https://example.com/logo.png' },
-        server: { numberOfProxies: 1, corsOrigin: ['https://example.com'], jwtSecret: 'test-jwt-secret', jwtExpiration: 3600 },
-        loopsSo: { apiKey: 'test-loops-api-key' },
+        server: { numberOfProxies: 1, corsOrigin: ['https://example.com'], jwtKeys: [{ id: 'default', secret: 'test-jwt-secret' }], jwtExpiration: { confirm: 3600, manage: 3600, unsubscribe: 3600 }, sessionExpiration: 3600 },
+        mailing: { provider: 'loops', mailer: 'provider', confirmationMode: 'click', mailbox: false, mergePolicy: { default: 'fill-missing', properties: {} }, suppressErased: false },
+        form: { properties: { firstName: 'string' }, unknownProperties: 'drop' },
+        store: { provider: 'memory', file: '.carajillo-state.json' },
+        cache: { provider: 'memory', ttl: 300000, staleWhileRevalidate: 86400000 },
+        webhooks: { urls: [], events: ['subscription.requested'], timeout: 5000 },
+        consent: { provider: 'none' },
+        loopsSo: { apiKey: 'test-loops-api-key', timeout: 5000, retries: 2 },
         captcha: { provider: 'hcaptcha', siteKey: 'hcaptcha-site-key', secret: 'hcaptcha-secret', threshold: 0.5, branding: 'disclaimer' },
       });
 
@@ -0,0 +1,175 @@
+jest.mock('node-fetch', () => jest.fn());
+
+import request from 'supertest';
+import type { Express } from 'express';
+import { getConsentRecords, hashIp, recordConsent, StoreConsentLedger } from '../consent';
+import type { ConsentRecord } from '../consent';
+import type { MailingProvider } from '../provider';
+import { getStore, MemoryStore } from '../store';
+import { loadConfiguration } from '../config';
+import type * as Unsubscribe from '../unsubscribe';
+
+describe('consent', () => {
+  const originalEnv = process.env;
+
+  const record = (email: string, timestamp: string, action: ConsentRecord['action'] = 'subscribe'): ConsentRecord => ({
+    email,
+    action,
+    timestamp,
+    mailingLists: { newsletter: true },
+    policy: {},
+  });
+
+  beforeEach(async () => {
+    process.env = { ...originalEnv, CONSENT_IP_SALT: 'consent-test-salt', CONSENT_POLICY_VERSION: '2026-10', CONSENT_POLICY_TEXT: 'I agree to receive the newsletter.' };
+    for (const key of await getStore().list('consent/')) {
+      await getStore().delete(key);
+    }
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  describe('configuration', () => {
+    it('should derive the IP salt from the signing key without JWT_SECRET', () => {
+      const env: NodeJS.ProcessEnv = { ...process.env, JWT_KEYS: 'k2:secret-2 k1:secret-1:2020-01-01' };
+      delete env.JWT_SECRET;
+      delete env.CONSENT_IP_SALT;
+
+      const { consent } = loadConfiguration(env);
+
+      expect(consent.provider).toBe('store');
+      expect(consent.ipSalt).toEqual(expect.any(String));
+      expect(consent.ipSalt).not.toContain('secret-2');
+      expect(loadConfiguration({ ...env, JWT_KEYS: 'k3:secret-3 k2:secret-2' }).consent.ipSalt).not.toBe(consent.ipSalt);
+    });
+
+    it('should derive the IP salt from JWT_SECRET before the signing key', () => {
+      const env: NodeJS.ProcessEnv = { ...process.env, JWT_KEYS: 'k2:secret-2', JWT_SECRET: 'old-secret' };
+      delete env.CONSENT_IP_SALT;
+
+      const { consent } = loadConfiguration(env);
+
+      expect(consent.ipSalt).toEqual(expect.any(String));
+      expect(consent.ipSalt).not.toBe('old-secret');
+      expect(loadConfiguration({ ...env, JWT_KEYS: 'k3:secret-3' }).consent.ipSalt).toBe(consent.ipSalt);
+    });
+  });
+
+  describe('StoreConsentLedger', () => {
+    it('should list records of the contact oldest first', async () => {
+      const ledger = new StoreConsentLedger(new MemoryStore());
+      await ledger.append(record('reader@example.com', '2026-10-02T00:00:00.000Z', 'confirm'));
+      await ledger.append(record('other@example.com', '2026-10-01T12:00:00.000Z'));
+      await ledger.append(record('reader@example.com', '2026-10-01T00:00:00.000Z'));
+
+      expect((await ledger.list('Reader@Example.com')).map(({ action }) => action)).toEqual(['subscribe', 'confirm']);
+    });
+
+    it('should keep records with the same timestamp', async () => {
+      const ledger = new StoreConsentLedger(new MemoryStore());
+      await ledger.append(record('reader@example.com', '2026-10-01T00:00:00.000Z'));
+      await ledger.append(record('reader@example.com', '2026-10-01T00:00:00.000Z', 'confirm'));
+
+      expect(await ledger.list('reader@example.com')).toHaveLength(2);
+    });
+
+    it('should erase records of the contact only', async () => {
+      const ledger = new StoreConsentLedger(new MemoryStore());
+      await ledger.append(record('reader@example.com', '2026-10-01T00:00:00.000Z'));
+      await ledger.append(record('other@example.com', '2026-10-01T00:00:00.000Z'));
+
+      await ledger.erase('Reader@Example.com');
+
+      expect(await ledger.list('reader@example.com')).toEqual([]);
+      expect(await ledger.list('other@example.com')).toHaveLength(1);
+    });
+
+    it('should not reveal email addresses in keys', async () => {
+      const store = new MemoryStore();
+      await new StoreConsentLedger(store).append(record('reader@example.com', '2026-10-01T00:00:00.000Z'));
+
+      expect((await store.list('consent/')).join()).not.toContain('reader');
+    });
+  });
+
+  describe('recordConsent', () => {
+    it('should record the request with the policy and a hashed IP address', async () => {
+      await recordConsent('reader@example.com', 'subscribe', { newsletter: true }, {
+        ip: '192.0.2.1',
+        formUrl: 'https://example.com/newsletter',
+        language: 'en',
+        captchaScore: 0.9,
+      });
+
+      expect(await getConsentRecords('reader@example.com')).toEqual([{
+        email: 'reader@example.com',
+        action: 'subscribe',
+        timestamp: expect.any(String),
+        ipHash: hashIp('192.0.2.1', 'consent-test-salt'),
+        formUrl: 'https://example.com/newsletter',
+        language: 'en',
+        captchaScore: 0.9,
+        mailingLists: { newsletter: true },
+        policy: { version: '2026-10', text: 'I agree to receive the newsletter.' },
+      }]);
+      expect(hashIp('192.0.2.1', 'consent-test-salt')).not.toContain('192.0.2.1');
+    });
+
+    it('should record nothing when the ledger is disabled', async () => {
+      process.env.CONSENT_LEDGER = 'none';
+
+      await recordConsent('reader@example.com', 'subscribe', { newsletter: true });
+
+      expect(await getStore().list('consent/')).toEqual([]);
+    });
+  });
+
+  describe('API', () => {
+    let app: Express;
+    let provider: MailingProvider;
+    let unsubscribe: typeof Unsubscribe;
+
+    beforeAll(async () => {
+      process.env = { ...originalEnv, MAILING_PROVIDER: 'memory', NUMBER_OF_PROXIES: '0', ADMIN_SECRET: 'admin-secret' };
+      app = (await import('../api')).app;
+      provider = (await import('../provider')).getProvider();
+      unsubscribe = await import('../unsubscribe');
+    });
+
+    beforeEach(async () => {
+      process.env = { ...originalEnv, MAILING_PROVIDER: 'memory', NUMBER_OF_PROXIES: '0', ADMIN_SECRET: 'admin-secret' };
+      await provider.upsertContact('reader@example.com', {}, ['newsletter']);
+      await provider.subscribeContact('reader@example.com');
+    });
+
+    it('should record withdrawal of the consent and return the records', async () => {
+      const url = unsubscribe.unsubscribeUrl((await provider.findContact('reader@example.com'))!, new URL('http://127.0.0.1'));
+      await request(app).post(url.pathname + url.search).type('form').send('List-Unsubscribe=One-Click').expect(200);
+
+      const response = await request(app)
+        .get('/api/admin/contacts/reader%40example.com/consent')
+        .set('Authorization', 'Bearer admin-secret')
+        .expect(200);
+
+      expect(response.body).toEqual({
+        success: true,
+        email: 'reader@example.com',
+        records: [expect.objectContaining({
+          action: 'unsubscribe',
+          mailingLists: { newsletter: true },
+          ipHash: expect.stringMatching(/^[0-9a-f]{64}$/),
+          formUrl: 'http://127.0.0.1/api/unsubscribe',
+        })],
+      });
+    });
+
+    it('should require the admin secret', async () => {
+      await request(app)
+        .get('/api/admin/contacts/reader%40example.com/consent')
+        .set('Authorization', 'Bearer wrong-secret')
+        .expect(401);
+    });
+  });
+});
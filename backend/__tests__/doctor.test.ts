@@ -0,0 +1,242 @@
+// Mock node-fetch before any imports that use it
+jest.mock('node-fetch', () => {
+  return jest.fn();
+});
+
+const mockProvider = {
+  getCustomProperties: jest.fn(),
+  getMailingLists: jest.fn(),
+};
+const mockMailer = {
+  checkConfirmationTemplates: jest.fn(),
+  checkControlPanelTemplates: jest.fn(),
+};
+
+jest.mock('../provider', () => ({
+  ...jest.requireActual('../provider'),
+  getProvider: () => mockProvider,
+}));
+jest.mock('../mailer', () => ({
+  getMailer: () => mockMailer,
+}));
+
+import request from 'supertest';
+import { app } from '../api';
+import { LOCALES, runDoctor } from '../doctor';
+import { migrate } from '../migrations';
+import type { MailingProvider } from '../provider';
+import { getStore } from '../store';
+
+describe('doctor', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv, CORS_ORIGIN: 'https://example.com', CAPTCHA_PROVIDER: 'recaptcha', CAPTCHA_BRANDING: 'disclaimer', CONFIRMATION_MODE: 'click' };
+    jest.clearAllMocks();
+    mockProvider.getCustomProperties.mockResolvedValue([
+      { key: 'language', type: 'string' },
+      { key: 'xOptInStatus', type: 'string' },
+      { key: 'xTokenGeneration', type: 'number' },
+    ]);
+    mockProvider.getMailingLists.mockResolvedValue([
+      { id: 'newsletter', name: 'Newsletter', description: null, isPublic: true },
+    ]);
+    mockMailer.checkConfirmationTemplates.mockResolvedValue([
+      { name: 'Confirmation email', status: 'ok', message: 'Found "Double Opt-In #EN"' },
+    ]);
+    mockMailer.checkControlPanelTemplates.mockResolvedValue([
+      { name: 'Control panel email', status: 'ok', message: 'Found "Control Panel Link #EN"' },
+    ]);
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  describe('runDoctor', () => {
+    it('should pass with complete setup', async () => {
+      await migrate(mockProvider as unknown as MailingProvider, getStore());
+
+      const report = await runDoctor();
+
+      expect(report.success).toBe(true);
+      expect(report.checks.map((check) => check.status)).toEqual(['ok', 'ok', 'ok', 'ok', 'ok', 'ok', 'ok', 'ok', 'ok', 'ok', 'ok', 'ok']);
+      expect(mockMailer.checkConfirmationTemplates).toHaveBeenCalledWith(LOCALES);
+      expect(mockMailer.checkControlPanelTemplates).toHaveBeenCalledWith(LOCALES);
+    });
+
+    it('should check confirmation emails for every locale from lit-localize.json', () => {
+      expect(LOCALES).toEqual(['en', 'pl']);
+    });
+
+    it('should warn about pending migrations', async () => {
+      await getStore().delete('migrations/state');
+
+      const report = await runDoctor();
+
+      expect(report.checks).toContainEqual(expect.objectContaining({ name: 'Migrations', status: 'warning', message: 'Schema version 0, latest 2' }));
+    });
+
+    it('should report missing and mistyped custom properties', async () => {
+      mockProvider.getCustomProperties.mockResolvedValue([{ key: 'xOptInStatus', type: 'number' }]);
+
+      const report = await runDoctor();
+
+      expect(report.success).toBe(false);
+      expect(report.checks).toEqual(expect.arrayContaining([
+        expect.objectContaining({ name: 'Custom property language', status: 'error', message: 'Missing' }),
+        expect.objectContaining({ name: 'Custom property xOptInStatus', status: 'error', message: 'Has type number, expected string' }),
+      ]));
+    });
+
+    it('should report reserved and missing form properties', async () => {
+      process.env.FORM_PROPERTIES = 'firstName:string subscribed:boolean age:number language:number';
+
+      const report = await runDoctor();
+
+      expect(report.checks).toEqual(expect.arrayContaining([
+        expect.objectContaining({ name: 'Form property firstName', status: 'ok' }),
+        expect.objectContaining({ name: 'Form property subscribed', status: 'error', message: 'Reserved property cannot be set by form' }),
+        expect.objectContaining({ name: 'Form property age', status: 'error', message: 'Missing' }),
+        expect.objectContaining({ name: 'Form property language', status: 'error', message: 'Has type string, expected number' }),
+      ]));
+    });
+
+    it('should report missing public mailing lists', async () => {
+      mockProvider.getMailingLists.mockResolvedValue([]);
+
+      const report = await runDoctor();
+
+      expect(report.checks).toContainEqual(expect.objectContaining({ name: 'Mailing lists', status: 'error' }));
+    });
+
+    it('should report provider errors as failed checks', async () => {
+      mockProvider.getCustomProperties.mockRejectedValue(new Error('Invalid API key'));
+
+      const report = await runDoctor();
+
+      expect(report.success).toBe(false);
+      expect(report.checks).toContainEqual(expect.objectContaining({ name: 'Custom properties', status: 'error', message: 'Invalid API key' }));
+    });
+
+    it.each([
+      ['', 'warning'],
+      ['*', 'warning'],
+      ['https://example.com/', 'error'],
+      ['http://example.com', 'warning'],
+      ['http://localhost:8888 https://example.com', 'ok'],
+    ])('should check CORS_ORIGIN=%j', async (corsOrigin, status) => {
+      process.env.CORS_ORIGIN = corsOrigin;
+
+      const report = await runDoctor();
+
+      expect(report.checks).toContainEqual(expect.objectContaining({ name: 'CORS_ORIGIN', status }));
+    });
+
+    it('should warn about disabled CAPTCHA', async () => {
+      process.env.CAPTCHA_PROVIDER = 'none';
+
+      const report = await runDoctor();
+
+      expect(report.success).toBe(true);
+      expect(report.checks).toContainEqual(expect.objectContaining({ name: 'CAPTCHA', status: 'warning' }));
+    });
+
+    it.each([
+      ['auto', 'recaptcha'],
+      ['captcha', 'none'],
+    ])('should warn about confirmation mode %s with CAPTCHA provider %s', async (mode, provider) => {
+      process.env.CONFIRMATION_MODE = mode;
+      process.env.CAPTCHA_PROVIDER = provider;
+
+      const report = await runDoctor();
+
+      expect(report.checks).toContainEqual(expect.objectContaining({ name: 'CONFIRMATION_MODE', status: 'warning' }));
+    });
+
+    it('should warn about the default confirmation mode', async () => {
+      delete process.env.CONFIRMATION_MODE;
+
+      const report = await runDoctor();
+
+      expect(report.checks).toContainEqual(expect.objectContaining({ name: 'CONFIRMATION_MODE', status: 'warning', hint: 'Set CONFIRMATION_MODE to click or captcha' }));
+    });
+
+    it('should warn about hidden reCAPTCHA badge without disclaimer', async () => {
+      process.env.CAPTCHA_BRANDING = 'none';
+
+      const report = await runDoctor();
+
+      expect(report.checks).toContainEqual(expect.objectContaining({ name: 'CAPTCHA', status: 'warning', message: 'reCAPTCHA badge is hidden without the disclaimer' }));
+    });
+
+    it('should report configuration errors', async () => {
+      delete process.env.JWT_SECRET;
+
+      const report = await runDoctor();
+
+      expect(report).toEqual({
+        success: false,
+        checks: [expect.objectContaining({ name: 'Configuration', status: 'error', message: 'JWT_KEYS or JWT_SECRET must be set' })],
+      });
+    });
+  });
+
+  describe('GET /api/admin/doctor', () => {
+    it('should be disabled without ADMIN_SECRET', async () => {
+      delete process.env.ADMIN_SECRET;
+
+      const response = await request(app)
+        .get('/api/admin/doctor')
+        .set('Authorization', 'Bearer anything')
+        .expect(403);
+
+      expect(response.body.reason).toBe('admin-disabled');
+    });
+
+    it('should reject invalid admin secret', async () => {
+      process.env.ADMIN_SECRET = 'admin-secret';
+
+      const response = await request(app)
+        .get('/api/admin/doctor')
+        .set('Authorization', 'Bearer wrong-secret')
+        .expect(401);
+
+      expect(response.body.reason).toBe('invalid-token');
+    });
+
+    it('should return the report', async () => {
+      process.env.ADMIN_SECRET = 'admin-secret';
+
+      const response = await request(app)
+        .get('/api/admin/doctor')
+        .set('Authorization', 'Bearer admin-secret')
+        .expect(200);
+
+      expect(response.body.success).toBe(true);
+      expect(response.body.checks).toContainEqual({ name: 'Mailing lists', status: 'ok', message: 'Newsletter' });
+    });
+
+    it('should report invalid configuration of a started API', async () => {
+      process.env.ADMIN_SECRET = 'admin-secret';
+      process.env.FORM_PROPERTIES = 'age:integer';
+      const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+      let isolatedApp: typeof app;
+      jest.isolateModules(() => {
+        isolatedApp = require('../api').app;
+      });
+
+      const response = await request(isolatedApp!)
+        .get('/api/admin/doctor')
+        .set('Authorization', 'Bearer admin-secret')
+        .expect(200);
+
+      expect(response.body).toEqual({
+        success: false,
+        checks: [expect.objectContaining({ name: 'Configuration', status: 'error', message: expect.stringContaining('FORM_PROPERTIES') })],
+      });
+      expect(consoleError).toHaveBeenCalledWith(expect.stringContaining('Invalid configuration'));
+      consoleError.mockRestore();
+    });
+  });
+});
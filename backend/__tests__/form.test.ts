@@ -0,0 +1,76 @@
+import type { FormConfiguration } from '../config';
+import { parseFormProperties, withFormProperties } from '../form';
+import { openApiSpec } from '../openapi-spec';
+
+describe('form', () => {
+  const config: FormConfiguration = {
+    properties: { firstName: 'string', age: 'number', student: 'boolean', birthday: 'date' },
+    unknownProperties: 'drop',
+  };
+
+  describe('parseFormProperties', () => {
+    it('should convert form values to property types', () => {
+      expect(parseFormProperties({ firstName: 'Jane', age: ' 42 ', student: 'on', birthday: '2000-02-29' }, config)).toEqual({
+        firstName: 'Jane',
+        age: 42,
+        student: true,
+        birthday: '2000-02-29T00:00:00.000Z',
+      });
+    });
+
+    it('should accept JSON values and empty fields', () => {
+      expect(parseFormProperties({ age: 7, student: false, birthday: '' }, config)).toEqual({ age: 7, student: false, birthday: null });
+      expect(parseFormProperties({ age: '', student: '' }, config)).toEqual({ age: null, student: false });
+    });
+
+    it.each([
+      ['age', 'many'],
+      ['student', 'maybe'],
+      ['birthday', 'yesterday'],
+      ['firstName', { first: 'Jane' }],
+    ])('should reject invalid %s=%j', (key, value) => {
+      expect(() => parseFormProperties({ [key]: value }, config)).toThrow(expect.objectContaining({ statusCode: 400, reason: 'invalid-property' }));
+    });
+
+    it.each(['subscribed', 'mailingLists', 'optInStatus', 'xOptInStatus', 'xAnything'])('should reject reserved %s', (key) => {
+      expect(() => parseFormProperties({ [key]: 'true' }, config)).toThrow(expect.objectContaining({ statusCode: 400, reason: 'reserved-property' }));
+    });
+
+    it('should drop or reject unknown properties', () => {
+      expect(parseFormProperties({ firstName: 'Jane', userGroup: 'vip' }, config)).toEqual({ firstName: 'Jane' });
+      expect(() => parseFormProperties({ userGroup: 'vip' }, { ...config, unknownProperties: 'reject' }))
+        .toThrow(expect.objectContaining({ statusCode: 400, reason: 'unknown-property' }));
+    });
+
+    it('should not treat inherited object keys as properties', () => {
+      expect(parseFormProperties({ constructor: 'x', toString: 'y' }, config)).toEqual({});
+    });
+  });
+
+  describe('withFormProperties', () => {
+    const subscribeRequest = (spec: typeof openApiSpec) =>
+      (spec as unknown as { components: { schemas: { SubscribeRequest: { properties: Record<string, object>; additionalProperties: unknown } } } })
+        .components.schemas.SubscribeRequest;
+
+    it('should add form properties to SubscribeRequest schema', () => {
+      const schema = subscribeRequest(withFormProperties(openApiSpec, config));
+
+      expect(schema.properties.firstName).toEqual(expect.objectContaining({ type: 'string' }));
+      expect(schema.properties.age).toEqual(expect.objectContaining({ anyOf: expect.arrayContaining([{ type: 'number' }]) }));
+      expect(schema.properties.email).toEqual(expect.objectContaining({ format: 'email' }));
+      expect(schema.additionalProperties).toBe(true);
+    });
+
+    it('should forbid additional properties in reject mode', () => {
+      const schema = subscribeRequest(withFormProperties(openApiSpec, { ...config, unknownProperties: 'reject' }));
+
+      expect(schema.additionalProperties).toBe(false);
+    });
+
+    it('should not modify the original spec', () => {
+      withFormProperties(openApiSpec, config);
+
+      expect(subscribeRequest(openApiSpec).properties.age).toBeUndefined();
+    });
+  });
+});
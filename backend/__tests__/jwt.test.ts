@@ -1,11 +1,22 @@
-import { createToken, authenticate, validateToken } from '../jwt';
+import { createToken, createSession, authenticate, validateToken, verifyToken, consumeToken, checkTokenUnused, releaseToken, revokeTokens, revokeAddressTokens } from '../jwt';
 import { Request } from 'express';
 import { HttpError } from '../error';
 import * as jwt from 'jsonwebtoken';
+import { getStore } from '../store';
 
 // Mock jsonwebtoken
 jest.mock('jsonwebtoken');
 
+const mockProvider = {
+  findContact: jest.fn(),
+  updateContactProperties: jest.fn(),
+};
+
+jest.mock('../provider', () => ({
+  ...jest.requireActual('../provider'),
+  getProvider: () => mockProvider,
+}));
+
 describe('JWT', () => {
   const originalEnv = process.env;
   const testSecret = 'test-secret-key-for-jwt-signing';
@@ -17,6 +28,7 @@ describe('JWT', () => {
     process.env = { ...originalEnv };
     process.env.JWT_SECRET = testSecret;
     process.env.JWT_EXPIRATION = '1 year';
+    mockProvider.findContact.mockResolvedValue({ id: '1', email: testEmail, subscribed: true, mailingLists: {}, optInStatus: 'accepted' });
   });
 
   afterEach(() => {
@@ -30,52 +42,79 @@ describe('JWT', () => {
       mockSign.mockReturnValue('mock-token');
 
       const issuer = new URL('https://example.com');
-      const token = createToken(testEmail, issuer);
+      const token = createToken(testEmail, issuer, 'manage');
 
       expect(mockSign).toHaveBeenCalledWith(
-        {},
+        { scope: 'manage', gen: 0 },
         testSecret,
         expect.objectContaining({
           subject: testEmail,
           issuer: issuer.hostname,
           algorithm: 'HS512',
-          expiresIn: '1 year',
+          expiresIn: 365.25 * 24 * 60 * 60,
         })
       );
       expect(token).toBe('mock-token');
     });
 
-    it('should throw HttpError when JWT_SECRET is not defined', async () => {
-      // Note: This test verifies the error handling logic
-      // In practice, JWT_SECRET is checked at module load time
-      const originalSecret = process.env.JWT_SECRET;
+    it.each([
+      ['confirm', 'JWT_CONFIRM_EXPIRATION', '2 days', 2 * 24 * 60 * 60],
+      ['unsubscribe', 'JWT_UNSUBSCRIBE_EXPIRATION', '10 years', 10 * 365.25 * 24 * 60 * 60],
+    ] as const)('should create %s token with its own lifetime', (scope, variable, lifetime, seconds) => {
+      const mockSign = jwt.sign as jest.Mock;
+      process.env[variable] = lifetime;
+
+      createToken(testEmail, new URL('https://example.com'), scope);
+
+      expect(mockSign).toHaveBeenCalledWith({ scope, gen: 0 }, testSecret, expect.objectContaining({ expiresIn: seconds }));
+    });
+
+    it('should sign list link', () => {
+      const mockSign = jwt.sign as jest.Mock;
+
+      createToken(testEmail, new URL('https://example.com'), 'manage', 1, { list: 'news', action: 'unsubscribe' });
+
+      expect(mockSign).toHaveBeenCalledWith({ scope: 'manage', gen: 1, list: 'news', act: 'unsubscribe' }, testSecret, expect.anything());
+    });
+
+    it('should give only confirmation tokens an ID', () => {
+      const mockSign = jwt.sign as jest.Mock;
+      const issuer = new URL('https://example.com');
+
+      createToken(testEmail, issuer, 'confirm');
+      createToken(testEmail, issuer, 'manage');
+
+      expect(mockSign.mock.calls[0][2].jwtid).toMatch(/^[0-9a-f-]{36}$/);
+      expect(mockSign.mock.calls[1][2].jwtid).toBeUndefined();
+    });
+
+    it('should throw HttpError when JWT_SECRET is not defined', () => {
       delete process.env.JWT_SECRET;
-      
-      jest.resetModules();
-      const jwtModule = await import('../jwt');
       const issuer = new URL('https://example.com');
-      
-      // The error should be thrown
-      expect(() => jwtModule.createToken(testEmail, issuer)).toThrow();
-      
-      // Verify it's an error with the correct message
-      try {
-        jwtModule.createToken(testEmail, issuer);
-      } catch (error: any) {
-        expect(error.message).toContain('Server configuration error');
-        expect(error.statusCode).toBe(500);
-      }
-      
-      process.env.JWT_SECRET = originalSecret;
+
+      expect(() => createToken(testEmail, issuer, 'confirm')).toThrow(expect.objectContaining({
+        message: 'Server configuration error',
+        statusCode: 500,
+        details: 'JWT_KEYS or JWT_SECRET must be set',
+      }));
+    });
+
+    it('should sign with the newest key', () => {
+      const mockSign = jwt.sign as jest.Mock;
+      process.env.JWT_KEYS = 'k2:secret-2 k1:secret-1:2030-01-01';
+
+      createToken(testEmail, new URL('https://example.com'), 'confirm');
+
+      expect(mockSign).toHaveBeenCalledWith({ scope: 'confirm', gen: 0 }, 'secret-2', expect.objectContaining({ keyid: 'k2' }));
     });
   });
 
   describe('validateToken', () => {
-    it('should return email when token is valid', () => {
+    it('should return email when token is valid', async () => {
       const mockVerify = jwt.verify as jest.Mock;
       mockVerify.mockReturnValue({ sub: testEmail });
 
-      const email = validateToken('valid-token', testIssuer);
+      const email = await validateToken('valid-token', testIssuer);
 
       expect(mockVerify).toHaveBeenCalledWith(
         'valid-token',
@@ -90,37 +129,47 @@ describe('JWT', () => {
     });
 
     it('should throw HttpError when JWT_SECRET is not defined', async () => {
-      // Note: Similar to createToken test - verify error handling logic
-      const originalSecret = process.env.JWT_SECRET;
       delete process.env.JWT_SECRET;
-      
-      jest.resetModules();
-      const jwtModule = await import('../jwt');
-      
-      // The error should be thrown (validateToken is synchronous)
-      expect(() => jwtModule.validateToken('token', testIssuer)).toThrow();
-      
-      // Verify it's an error with the correct message
-      try {
-        jwtModule.validateToken('token', testIssuer);
-      } catch (error: any) {
-        expect(error.message).toContain('Server configuration error');
-        expect(error.statusCode).toBe(500);
-      }
-      
-      process.env.JWT_SECRET = originalSecret;
+
+      await expect(validateToken('token', testIssuer)).rejects.toThrow(expect.objectContaining({
+        message: 'Server configuration error',
+        statusCode: 500,
+      }));
+    });
+
+    it('should accept expired token when asked to', async () => {
+      const mockVerify = jwt.verify as jest.Mock;
+      mockVerify.mockReturnValue({ sub: testEmail });
+
+      expect(await validateToken('expired-token', testIssuer, { ignoreExpiration: true })).toBe(testEmail);
+      expect(mockVerify).toHaveBeenCalledWith('expired-token', testSecret, expect.objectContaining({ ignoreExpiration: true }));
+    });
+
+    it('should treat token without scope as management token', async () => {
+      const mockVerify = jwt.verify as jest.Mock;
+      mockVerify.mockReturnValue({ sub: testEmail });
+
+      expect(await validateToken('legacy-token', testIssuer, { scopes: ['manage'] })).toBe(testEmail);
     });
 
-    it('should throw HttpError with expired-token reason when token is expired', () => {
+    it('should throw HttpError with insufficient-scope reason when scope is not allowed', async () => {
+      const mockVerify = jwt.verify as jest.Mock;
+      mockVerify.mockReturnValue({ sub: testEmail, scope: 'unsubscribe' });
+
+      expect(await validateToken('unsubscribe-token', testIssuer)).toBe(testEmail);
+      await expect(validateToken('unsubscribe-token', testIssuer, { scopes: ['confirm', 'manage'] })).rejects.toThrow(expect.objectContaining({ statusCode: 403, reason: 'insufficient-scope' }));
+    });
+
+    it('should throw HttpError with expired-token reason when token is expired', async () => {
       const mockVerify = jwt.verify as jest.Mock;
       const expiredError = new jwt.TokenExpiredError('Token expired', new Date());
       mockVerify.mockImplementation(() => {
         throw expiredError;
       });
 
-      expect(() => validateToken('expired-token', testIssuer)).toThrow(HttpError);
+      await expect(validateToken('expired-token', testIssuer)).rejects.toThrow(HttpError);
       try {
-        validateToken('expired-token', testIssuer);
+        await validateToken('expired-token', testIssuer);
       } catch (error) {
         expect(error).toBeInstanceOf(HttpError);
         expect((error as HttpError).statusCode).toBe(401);
@@ -128,16 +177,16 @@ describe('JWT', () => {
       }
     });
 
-    it('should throw HttpError with invalid-token reason when token is invalid', () => {
+    it('should throw HttpError with invalid-token reason when token is invalid', async () => {
       const mockVerify = jwt.verify as jest.Mock;
       const invalidError = new jwt.JsonWebTokenError('Invalid token');
       mockVerify.mockImplementation(() => {
         throw invalidError;
       });
 
-      expect(() => validateToken('invalid-token', testIssuer)).toThrow(HttpError);
+      await expect(validateToken('invalid-token', testIssuer)).rejects.toThrow(HttpError);
       try {
-        validateToken('invalid-token', testIssuer);
+        await validateToken('invalid-token', testIssuer);
       } catch (error) {
         expect(error).toBeInstanceOf(HttpError);
         expect((error as HttpError).statusCode).toBe(401);
@@ -145,13 +194,13 @@ describe('JWT', () => {
       }
     });
 
-    it('should throw HttpError when token subject is missing', () => {
+    it('should throw HttpError when token subject is missing', async () => {
       const mockVerify = jwt.verify as jest.Mock;
       mockVerify.mockReturnValue({}); // No 'sub' field
 
-      expect(() => validateToken('token', testIssuer)).toThrow(HttpError);
+      await expect(validateToken('token', testIssuer)).rejects.toThrow(HttpError);
       try {
-        validateToken('token', testIssuer);
+        await validateToken('token', testIssuer);
       } catch (error) {
         expect(error).toBeInstanceOf(HttpError);
         expect((error as HttpError).statusCode).toBe(401);
@@ -160,8 +209,237 @@ describe('JWT', () => {
     });
   });
 
+  describe('single-use tokens', () => {
+    const expiresAt = new Date(Date.now() + 60_000);
+
+    it('should return token claims', () => {
+      (jwt.verify as jest.Mock).mockReturnValue({ sub: testEmail, scope: 'confirm', jti: 'token-id', exp: Math.floor(expiresAt.getTime() / 1000) });
+
+      expect(verifyToken('token', testIssuer)).toEqual({
+        email: testEmail,
+        scope: 'confirm',
+        jti: 'token-id',
+        generation: 0,
+        session: false,
+        expiresAt: new Date(Math.floor(expiresAt.getTime() / 1000) * 1000),
+      });
+    });
+
+    it('should consume confirmation token once', async () => {
+      const claims = { email: testEmail, scope: 'confirm' as const, generation: 0, jti: 'consumed-once', expiresAt };
+
+      await expect(consumeToken(claims)).resolves.toBeUndefined();
+      await expect(consumeToken(claims)).rejects.toMatchObject({ statusCode: 401, reason: 'used-token' });
+    });
+
+    it('should accept released confirmation token again', async () => {
+      const claims = { email: testEmail, scope: 'confirm' as const, generation: 0, jti: 'released', expiresAt };
+
+      await consumeToken(claims);
+      await releaseToken(claims);
+
+      await expect(consumeToken(claims)).resolves.toBeUndefined();
+    });
+
+    it('should check confirmation token without using it up', async () => {
+      const claims = { email: testEmail, scope: 'confirm' as const, generation: 0, jti: 'checked', expiresAt };
+
+      await expect(checkTokenUnused(claims)).resolves.toBeUndefined();
+      await consumeToken(claims);
+
+      await expect(checkTokenUnused(claims)).rejects.toMatchObject({ statusCode: 401, reason: 'used-token' });
+    });
+
+    it('should reject confirmation token without ID', async () => {
+      await expect(consumeToken({ email: testEmail, scope: 'confirm', generation: 0, expiresAt })).rejects.toMatchObject({ statusCode: 401, reason: 'invalid-token' });
+    });
+
+    it('should not consume management token', async () => {
+      const claims = { email: testEmail, scope: 'manage' as const, generation: 0 };
+
+      await consumeToken(claims);
+      await expect(consumeToken(claims)).resolves.toBeUndefined();
+    });
+  });
+
+  describe('createSession', () => {
+    const issuer = new URL('https://example.com');
+    const mockSign = jwt.sign as jest.Mock;
+
+    beforeEach(() => {
+      mockSign.mockReturnValue('session-token');
+    });
+
+    it('should keep the link scope, ID and generation', () => {
+      const linkExpiresAt = new Date(Date.now() + 24 * 60 * 60 * 1000);
+      process.env.JWT_SESSION_EXPIRATION = '15 minutes';
+
+      const session = createSession({ email: testEmail, scope: 'confirm', jti: 'link-id', expiresAt: linkExpiresAt, generation: 2 }, issuer);
+
+      expect(session.token).toBe('session-token');
+      expect(session.expiresAt.getTime()).toBeCloseTo(Date.now() + 15 * 60 * 1000, -4);
+      expect(mockSign).toHaveBeenCalledWith(
+        { scope: 'confirm', gen: 2, ses: true, exp: Math.floor(session.expiresAt.getTime() / 1000), lexp: Math.floor(linkExpiresAt.getTime() / 1000) },
+        testSecret,
+        expect.objectContaining({ subject: testEmail, issuer: issuer.hostname, jwtid: 'link-id' })
+      );
+    });
+
+    it('should not outlive the link', () => {
+      const linkExpiresAt = new Date(Date.now() + 60_000);
+
+      const session = createSession({ email: testEmail, scope: 'manage', expiresAt: linkExpiresAt, generation: 0 }, issuer);
+
+      expect(session.expiresAt).toEqual(linkExpiresAt);
+      expect(mockSign).toHaveBeenCalledWith(expect.anything(), testSecret, expect.not.objectContaining({ jwtid: expect.anything() }));
+    });
+
+    it('should keep the list link', () => {
+      createSession({ email: testEmail, scope: 'manage', generation: 0, listLink: { list: 'news', action: 'subscribe' } }, issuer);
+
+      expect(mockSign).toHaveBeenCalledWith(expect.objectContaining({ list: 'news', act: 'subscribe' }), testSecret, expect.anything());
+    });
+
+    it('should be recognized as a session with the link expiration', () => {
+      (jwt.verify as jest.Mock).mockReturnValue({ sub: testEmail, scope: 'confirm', jti: 'link-id', ses: true, exp: 1000, lexp: 2000 });
+
+      expect(verifyToken('session-token', testIssuer)).toEqual(expect.objectContaining({
+        session: true,
+        jti: 'link-id',
+        expiresAt: new Date(2000 * 1000),
+      }));
+    });
+  });
+
+  describe('list links', () => {
+    it('should return the list link claims', () => {
+      (jwt.verify as jest.Mock).mockReturnValue({ sub: testEmail, scope: 'manage', list: 'news', act: 'unsubscribe' });
+
+      expect(verifyToken('token', testIssuer).listLink).toEqual({ list: 'news', action: 'unsubscribe' });
+    });
+
+    it('should not limit other tokens', () => {
+      (jwt.verify as jest.Mock).mockReturnValue({ sub: testEmail, scope: 'manage' });
+
+      expect(verifyToken('token', testIssuer).listLink).toBeUndefined();
+    });
+  });
+
+  describe('revocation', () => {
+    const contact = { id: '1', email: testEmail, subscribed: true, mailingLists: {}, optInStatus: 'accepted' as const };
+
+    afterEach(() => {
+      mockProvider.findContact.mockReset();
+    });
+
+    it('should reject token of older generation', async () => {
+      (jwt.verify as jest.Mock).mockReturnValue({ sub: testEmail, gen: 1 });
+      mockProvider.findContact.mockResolvedValue({ ...contact, xTokenGeneration: 2 });
+
+      await expect(validateToken('token', testIssuer)).rejects.toMatchObject({ statusCode: 401, reason: 'revoked-token' });
+    });
+
+    it('should accept token of current generation', async () => {
+      (jwt.verify as jest.Mock).mockReturnValue({ sub: testEmail, gen: 2 });
+      mockProvider.findContact.mockResolvedValue({ ...contact, xTokenGeneration: 2 });
+
+      expect(await validateToken('token', testIssuer)).toBe(testEmail);
+    });
+
+    it('should treat token without generation as the first one', async () => {
+      (jwt.verify as jest.Mock).mockReturnValue({ sub: testEmail });
+      mockProvider.findContact.mockResolvedValue({ ...contact, xTokenGeneration: 1 });
+
+      await expect(validateToken('token', testIssuer)).rejects.toMatchObject({ reason: 'revoked-token' });
+    });
+
+    it('should reject token of deleted contact', async () => {
+      (jwt.verify as jest.Mock).mockReturnValue({ sub: testEmail, gen: 2 });
+      mockProvider.findContact.mockResolvedValue(null);
+
+      await expect(validateToken('token', testIssuer)).rejects.toMatchObject({ statusCode: 401, reason: 'revoked-token' });
+    });
+
+    describe('of a deleted address', () => {
+      const revokedAt = new Date('2026-10-19T12:00:00.500Z');
+      const seconds = (date: string) => Math.floor(new Date(date).getTime() / 1000);
+
+      beforeEach(async () => {
+        mockProvider.findContact.mockResolvedValue(contact);
+        await revokeAddressTokens(testEmail.toUpperCase(), revokedAt);
+      });
+
+      afterEach(async () => {
+        for (const key of await getStore().list('revoked-address/')) {
+          await getStore().delete(key);
+        }
+      });
+
+      it('should reject tokens issued before the deletion to the contact created again', async () => {
+        (jwt.verify as jest.Mock).mockReturnValue({ sub: testEmail, iat: seconds('2026-10-01T00:00:00Z') });
+
+        await expect(validateToken('token', testIssuer)).rejects.toMatchObject({ statusCode: 401, reason: 'revoked-token' });
+      });
+
+      it('should reject tokens issued in the second of the deletion', async () => {
+        (jwt.verify as jest.Mock).mockReturnValue({ sub: testEmail, iat: seconds('2026-10-19T12:00:00Z') });
+
+        await expect(validateToken('token', testIssuer)).rejects.toMatchObject({ reason: 'revoked-token' });
+      });
+
+      it('should accept tokens issued after the deletion', async () => {
+        (jwt.verify as jest.Mock).mockReturnValue({ sub: testEmail, iat: seconds('2026-10-19T12:00:01Z') });
+
+        expect(await validateToken('token', testIssuer)).toBe(testEmail);
+      });
+    });
+
+    it('should increment contact token generation', async () => {
+      expect(await revokeTokens(contact)).toBe(1);
+      expect(await revokeTokens({ ...contact, xTokenGeneration: 4 })).toBe(5);
+      expect(mockProvider.updateContactProperties).toHaveBeenLastCalledWith(testEmail, { xTokenGeneration: 5 });
+    });
+  });
+
+  describe('key rotation', () => {
+    const mockDecode = jwt.decode as jest.Mock;
+    const mockVerify = jwt.verify as jest.Mock;
+    const withKeyId = (kid?: string) => ({ header: { alg: 'HS512', kid }, payload: {}, signature: '' });
+
+    beforeEach(() => {
+      process.env.JWT_KEYS = 'k3:secret-3 k2:secret-2:2099-01-01 k1:secret-1:2020-01-01';
+      mockVerify.mockReturnValue({ sub: testEmail });
+    });
+
+    afterEach(() => {
+      mockDecode.mockReset();
+    });
+
+    it('should verify token with the key from its header', async () => {
+      mockDecode.mockReturnValue(withKeyId('k2'));
+
+      expect(await validateToken('token', testIssuer)).toBe(testEmail);
+      expect(mockVerify).toHaveBeenCalledWith('token', 'secret-2', expect.anything());
+    });
+
+    it('should verify token without key ID with JWT_SECRET', async () => {
+      mockDecode.mockReturnValue(withKeyId(undefined));
+
+      await validateToken('token', testIssuer);
+
+      expect(mockVerify).toHaveBeenCalledWith('token', testSecret, expect.anything());
+    });
+
+    it.each(['k1', 'unknown'])('should reject token signed with %s key', async (kid) => {
+      mockDecode.mockReturnValue(withKeyId(kid));
+
+      await expect(validateToken('token', testIssuer)).rejects.toThrow(expect.objectContaining({ statusCode: 401, reason: 'invalid-token' }));
+      expect(mockVerify).not.toHaveBeenCalled();
+    });
+  });
+
   describe('authenticate', () => {
-    it('should extract and validate token from Authorization header', () => {
+    it('should extract and validate token from Authorization header', async () => {
       const mockVerify = jwt.verify as jest.Mock;
       mockVerify.mockReturnValue({ sub: testEmail });
 
@@ -172,21 +450,21 @@ describe('JWT', () => {
         hostname: testIssuer,
       } as unknown as Request;
 
-      const email = authenticate(mockRequest);
+      const email = await authenticate(mockRequest);
 
       expect(email).toBe(testEmail);
       expect(mockVerify).toHaveBeenCalled();
     });
 
-    it('should throw HttpError when Authorization header is missing', () => {
+    it('should throw HttpError when Authorization header is missing', async () => {
       const mockRequest = {
         headers: {},
         hostname: testIssuer,
       } as unknown as Request;
 
-      expect(() => authenticate(mockRequest)).toThrow(HttpError);
+      await expect(authenticate(mockRequest)).rejects.toThrow(HttpError);
       try {
-        authenticate(mockRequest);
+        await authenticate(mockRequest);
       } catch (error) {
         expect(error).toBeInstanceOf(HttpError);
         expect((error as HttpError).statusCode).toBe(401);
@@ -194,7 +472,7 @@ describe('JWT', () => {
       }
     });
 
-    it('should throw HttpError when Authorization header format is invalid', () => {
+    it('should throw HttpError when Authorization header format is invalid', async () => {
       const mockRequest = {
         headers: {
           authorization: 'InvalidFormat token',
@@ -202,7 +480,7 @@ describe('JWT', () => {
         hostname: testIssuer,
       } as unknown as Request;
 
-      expect(() => authenticate(mockRequest)).toThrow(HttpError);
+      await expect(authenticate(mockRequest)).rejects.toThrow(HttpError);
     });
   });
 });
@@ -0,0 +1,131 @@
+jest.mock('node-fetch', () => jest.fn());
+
+import { createHmac } from 'crypto';
+import { readFileSync } from 'fs';
+import path from 'path';
+import request from 'supertest';
+import type { MailingProvider } from '../provider';
+
+let mockProvider: MailingProvider;
+
+jest.mock('../provider', () => ({
+  ...jest.requireActual('../provider'),
+  getProvider: () => mockProvider,
+}));
+
+import { app } from '../api';
+import { verifyWebhookSignature } from '../loops-webhook';
+import { MemoryProvider } from '../memory';
+
+const fixtures = path.join(__dirname, 'fixtures/loops-webhooks');
+
+describe('Loops webhook', () => {
+  const originalEnv = process.env;
+  const secret = 'whsec_' + Buffer.from('loops-webhook-test-secret').toString('base64');
+  let deliveries = 0;
+
+  // Recorded payload sent the way Loops does: raw body signed with the webhook ID and the timestamp.
+  const deliver = (fixture: string, {id = `msg_${++deliveries}`, sentAt = Date.now(), key = secret} = {}) => {
+    const body = readFileSync(path.join(fixtures, `${fixture}.json`), 'utf8');
+    const timestamp = String(Math.floor(sentAt / 1000));
+    const signature = createHmac('sha256', Buffer.from(key.replace(/^whsec_/, ''), 'base64'))
+      .update(`${id}.${timestamp}.${body}`)
+      .digest('base64');
+    return request(app)
+      .post('/api/webhooks/loops')
+      .set('Content-Type', 'application/json')
+      .set('webhook-id', id)
+      .set('webhook-timestamp', timestamp)
+      .set('webhook-signature', `v1,${signature}`)
+      .send(body);
+  };
+
+  beforeEach(async () => {
+    process.env = { ...originalEnv, MAILING_PROVIDER: 'loops', LOOPS_WEBHOOK_SECRET: secret, NUMBER_OF_PROXIES: '0' };
+    mockProvider = new MemoryProvider({});
+    await mockProvider.upsertContact('reader@example.com', {}, ['newsletter']);
+    await mockProvider.subscribeContact('reader@example.com');
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  describe('verifyWebhookSignature', () => {
+    it('should accept the Standard Webhooks example', () => {
+      const headers = {
+        'webhook-id': 'msg_p5jXN8AQM9LWM0D4loKWxJek',
+        'webhook-timestamp': '1614265330',
+        'webhook-signature': 'v1,invalid v1,g0hM9SsE+OTPJTGt/tmIKtSyZlE3uFJELVlNIOLJ1OE=',
+      };
+
+      expect(() => verifyWebhookSignature('whsec_MfKQ9r8GKYqrTwjUPD8ILPZIo2LaLaSw', headers, Buffer.from('{"test": 2432232314}'), 1614265330_000))
+        .not.toThrow();
+    });
+  });
+
+  it.each(['contact.unsubscribed', 'email.hardBounced', 'email.spamReported'])('should reject subscription on %s', async (event) => {
+    const response = await deliver(event).expect(200);
+
+    expect(response.body).toEqual({ success: true, applied: true });
+    expect(await mockProvider.findContact('reader@example.com')).toEqual(expect.objectContaining({ subscribed: false, optInStatus: 'rejected' }));
+  });
+
+  it('should add contact to the mailing list', async () => {
+    await deliver('contact.mailingList.subscribed').expect(200);
+
+    expect((await mockProvider.findContact('reader@example.com'))!.mailingLists).toEqual({ newsletter: true, announcements: true });
+  });
+
+  it('should remove contact from the mailing list', async () => {
+    await deliver('contact.mailingList.unsubscribed').expect(200);
+
+    expect((await mockProvider.findContact('reader@example.com'))!.mailingLists).toEqual({});
+  });
+
+  it('should not change contact already in sync', async () => {
+    await deliver('contact.unsubscribed').expect(200);
+
+    const response = await deliver('email.hardBounced').expect(200);
+
+    expect(response.body.applied).toBe(false);
+  });
+
+  it('should ignore other events', async () => {
+    const response = await deliver('email.opened').expect(200);
+
+    expect(response.body).toEqual({ success: true, applied: false });
+    expect(await mockProvider.findContact('reader@example.com')).toEqual(expect.objectContaining({ subscribed: true, optInStatus: 'accepted' }));
+  });
+
+  it('should apply repeated delivery once', async () => {
+    await deliver('contact.unsubscribed', { id: 'msg_repeated' }).expect(200);
+    await mockProvider.subscribeContact('reader@example.com');
+
+    const response = await deliver('contact.unsubscribed', { id: 'msg_repeated' }).expect(200);
+
+    expect(response.body.applied).toBe(false);
+    expect(await mockProvider.findContact('reader@example.com')).toEqual(expect.objectContaining({ subscribed: true }));
+  });
+
+  it('should reject invalid signature', async () => {
+    const response = await deliver('contact.unsubscribed', { key: 'whsec_' + Buffer.from('other-secret').toString('base64') }).expect(401);
+
+    expect(response.body.reason).toBe('invalid-signature');
+    expect(await mockProvider.findContact('reader@example.com')).toEqual(expect.objectContaining({ subscribed: true }));
+  });
+
+  it('should reject replay outside the tolerance', async () => {
+    const response = await deliver('contact.unsubscribed', { sentAt: Date.now() - 6 * 60 * 1000 }).expect(401);
+
+    expect(response.body.reason).toBe('stale-webhook');
+  });
+
+  it('should be disabled without LOOPS_WEBHOOK_SECRET', async () => {
+    delete process.env.LOOPS_WEBHOOK_SECRET;
+
+    const response = await deliver('contact.unsubscribed').expect(403);
+
+    expect(response.body.reason).toBe('webhook-disabled');
+  });
+});
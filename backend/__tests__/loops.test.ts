@@ -3,6 +3,7 @@ const mockLoopsClientInstance = {
   findContact: jest.fn(),
   createContact: jest.fn(),
   updateContact: jest.fn(),
+  deleteContact: jest.fn(),
   getMailingLists: jest.fn(),
   getCustomProperties: jest.fn(),
   createContactProperty: jest.fn(),
@@ -13,22 +14,18 @@ const mockLoopsClientInstance = {
 // Mock loops before importing the module that uses it
 jest.mock('loops', () => {
   return {
+    ...jest.requireActual('loops'),
     LoopsClient: jest.fn().mockImplementation(() => mockLoopsClientInstance),
   };
 });
 
-import {
-  findContact,
-  upsertContact,
-  subscribeContact,
-  unsubscribeContact,
-  sendConfirmationMail,
-  getMailingLists,
-  initialize,
-} from '../loops';
+import { Cache } from '../cache';
+import { LoopsProvider } from '../loops';
+import { MemoryStore } from '../store';
 
 describe('loops', () => {
   const originalEnv = process.env;
+  const provider = new LoopsProvider({ apiKey: 'test-api-key', timeout: 5000, retries: 2 }, new Cache(new MemoryStore(), { ttl: 0, staleWhileRevalidate: 0 }));
 
   beforeEach(() => {
     process.env = { ...originalEnv };
@@ -54,7 +51,7 @@ describe('loops', () => {
     it('should return null when contact is not found', async () => {
       mockLoopsClientInstance.findContact.mockResolvedValue([]);
 
-      const result = await findContact('test@example.com');
+      const result = await provider.findContact('test@example.com');
 
       expect(result).toBeNull();
       expect(mockLoopsClientInstance.findContact).toHaveBeenCalledWith({ email: 'test@example.com' });
@@ -72,7 +69,7 @@ describe('loops', () => {
 
       mockLoopsClientInstance.findContact.mockResolvedValue([mockContact] as any);
 
-      const result = await findContact('test@example.com');
+      const result = await provider.findContact('test@example.com');
 
       expect(result).toEqual({
         ...mockContact,
@@ -92,7 +89,7 @@ describe('loops', () => {
 
       mockLoopsClientInstance.findContact.mockResolvedValue([mockContact] as any);
 
-      const result = await findContact('test@example.com');
+      const result = await provider.findContact('test@example.com');
 
       expect(result?.optInStatus).toBe('accepted');
     });
@@ -106,7 +103,7 @@ describe('loops', () => {
       ] as any);
       mockLoopsClientInstance.createContact.mockResolvedValue({ id: 'new-contact-123' } as any);
 
-      const result = await upsertContact('new@example.com', { firstName: 'John' }, ['list-1']);
+      const result = await provider.upsertContact('new@example.com', { firstName: 'John' }, ['list-1']);
 
       expect(result.email).toBe('new@example.com');
       expect(result.optInStatus).toBe('pending');
@@ -130,7 +127,7 @@ describe('loops', () => {
       ] as any);
       mockLoopsClientInstance.createContact.mockResolvedValue({ id: 'new-contact-123' } as any);
 
-      const result = await upsertContact('new@example.com', {});
+      const result = await provider.upsertContact('new@example.com', {});
 
       expect(mockLoopsClientInstance.createContact).toHaveBeenCalledWith(
         expect.objectContaining({
@@ -151,7 +148,7 @@ describe('loops', () => {
 
       mockLoopsClientInstance.findContact.mockResolvedValue([mockContact] as any);
 
-      const result = await upsertContact('existing@example.com', { firstName: 'Jane' });
+      const result = await provider.upsertContact('existing@example.com', { firstName: 'Jane' });
 
       expect(result).toEqual({
         ...mockContact,
@@ -161,9 +158,33 @@ describe('loops', () => {
     });
   });
 
+  describe('updateContactProperties', () => {
+    it('should update contact properties only', async () => {
+      mockLoopsClientInstance.updateContact.mockResolvedValue({ success: true, id: 'contact-123' } as any);
+
+      await provider.updateContactProperties('test@example.com', { firstName: 'Jane' });
+
+      expect(mockLoopsClientInstance.updateContact).toHaveBeenCalledWith({
+        email: 'test@example.com',
+        properties: { firstName: 'Jane' },
+      });
+    });
+  });
+
+  describe('updateMailingLists', () => {
+    it('should update mailing lists only', async () => {
+      await provider.updateMailingLists('test@example.com', { 'list-1': false });
+
+      expect(mockLoopsClientInstance.updateContact).toHaveBeenCalledWith({
+        email: 'test@example.com',
+        mailingLists: { 'list-1': false },
+      });
+    });
+  });
+
   describe('subscribeContact', () => {
     it('should update contact to subscribed with accepted optInStatus', async () => {
-      await subscribeContact('test@example.com', { 'list-1': true });
+      await provider.subscribeContact('test@example.com', { 'list-1': true });
 
       expect(mockLoopsClientInstance.updateContact).toHaveBeenCalledWith({
         email: 'test@example.com',
@@ -176,7 +197,7 @@ describe('loops', () => {
     });
 
     it('should update contact without mailing lists when not provided', async () => {
-      await subscribeContact('test@example.com');
+      await provider.subscribeContact('test@example.com');
 
       expect(mockLoopsClientInstance.updateContact).toHaveBeenCalledWith({
         email: 'test@example.com',
@@ -191,7 +212,7 @@ describe('loops', () => {
 
   describe('unsubscribeContact', () => {
     it('should update contact to unsubscribed with rejected optInStatus', async () => {
-      await unsubscribeContact('test@example.com');
+      await provider.unsubscribeContact('test@example.com');
 
       expect(mockLoopsClientInstance.updateContact).toHaveBeenCalledWith({
         email: 'test@example.com',
@@ -203,6 +224,14 @@ describe('loops', () => {
     });
   });
 
+  describe('deleteContact', () => {
+    it('should delete contact by email', async () => {
+      await provider.deleteContact('test@example.com');
+
+      expect(mockLoopsClientInstance.deleteContact).toHaveBeenCalledWith({ email: 'test@example.com' });
+    });
+  });
+
   describe('getMailingLists', () => {
     it('should return only public mailing lists', async () => {
       const mockLists = [
@@ -213,13 +242,24 @@ describe('loops', () => {
 
       mockLoopsClientInstance.getMailingLists.mockResolvedValue(mockLists as any);
 
-      const result = await getMailingLists();
+      const result = await provider.getMailingLists();
 
       expect(result).toEqual([
         { id: 'list-1', name: 'Public List', isPublic: true },
         { id: 'list-3', name: 'Another Public', isPublic: true },
       ]);
     });
+
+    it('should cache mailing lists', async () => {
+      const cached = new LoopsProvider({ apiKey: 'test-api-key', timeout: 5000, retries: 2 }, new Cache(new MemoryStore(), { ttl: 60_000, staleWhileRevalidate: 0 }));
+      mockLoopsClientInstance.getMailingLists.mockResolvedValue([{ id: 'list-1', name: 'Public List', isPublic: true }] as any);
+
+      await cached.getMailingLists();
+      const result = await cached.getMailingLists();
+
+      expect(result).toEqual([{ id: 'list-1', name: 'Public List', isPublic: true }]);
+      expect(mockLoopsClientInstance.getMailingLists).toHaveBeenCalledTimes(1);
+    });
   });
 
   describe('sendConfirmationMail', () => {
@@ -239,7 +279,7 @@ describe('loops', () => {
       } as any);
       mockLoopsClientInstance.sendTransactionalEmail.mockResolvedValue(undefined as any);
 
-      await sendConfirmationMail('test@example.com', new URL('https://example.com/confirm?token=abc'), 'en');
+      await provider.sendConfirmationMail('test@example.com', new URL('https://example.com/confirm?token=abc'), 'en');
 
       expect(mockLoopsClientInstance.sendTransactionalEmail).toHaveBeenCalledWith({
         email: 'test@example.com',
@@ -250,6 +290,7 @@ describe('loops', () => {
           companyLogo: 'https://example.com/logo.png',
           xOptInUrl: 'https://example.com/confirm?token=abc',
         },
+        headers: { 'Idempotency-Key': expect.any(String) },
       });
     });
 
@@ -272,7 +313,7 @@ describe('loops', () => {
         pagination: { nextCursor: null, nextPage: null },
       } as any);
 
-      await sendConfirmationMail('test@example.com', new URL('https://example.com/confirm'), 'pl');
+      await provider.sendConfirmationMail('test@example.com', new URL('https://example.com/confirm'), 'pl');
 
       expect(mockLoopsClientInstance.sendTransactionalEmail).toHaveBeenCalledWith(
         expect.objectContaining({
@@ -288,32 +329,113 @@ describe('loops', () => {
       } as any);
 
       await expect(
-        sendConfirmationMail('test@example.com', new URL('https://example.com/confirm'), 'en')
+        provider.sendConfirmationMail('test@example.com', new URL('https://example.com/confirm'), 'en')
       ).rejects.toThrow('No confirmation email configured');
     });
   });
 
-  describe('initialize', () => {
-    it('should create custom properties if they do not exist', async () => {
-      mockLoopsClientInstance.getCustomProperties.mockResolvedValue([] as any);
+  describe('checkConfirmationTemplates', () => {
+    it('should warn about locales without translated email', async () => {
+      mockLoopsClientInstance.getTransactionalEmails.mockResolvedValue({
+        data: [
+          { id: 'email-123', name: 'Double Opt-In #EN', dataVariables: ['xOptInUrl'] },
+          { id: 'email-789', name: 'Welcome', dataVariables: ['firstName'] },
+        ],
+        pagination: { nextCursor: null, nextPage: null },
+      } as any);
+
+      const checks = await provider.checkConfirmationTemplates(['en', 'pl']);
+
+      expect(checks).toEqual([
+        expect.objectContaining({ name: 'Confirmation email', status: 'ok', message: 'Found "Double Opt-In #EN"' }),
+        expect.objectContaining({ name: 'Confirmation email #EN', status: 'ok' }),
+        expect.objectContaining({ name: 'Confirmation email #PL', status: 'warning', hint: 'Add #PL to the name of the translated confirmation email' }),
+      ]);
+    });
+
+    it('should fail when no email has xOptInUrl', async () => {
+      mockLoopsClientInstance.getTransactionalEmails.mockResolvedValue({
+        data: [{ id: 'email-789', name: 'Welcome', dataVariables: ['firstName'] }],
+        pagination: { nextCursor: null, nextPage: null },
+      } as any);
+
+      const checks = await provider.checkConfirmationTemplates(['en']);
+
+      expect(checks).toEqual([expect.objectContaining({ name: 'Confirmation email', status: 'error' })]);
+    });
+  });
+
+  describe('sendControlPanelMail', () => {
+    it('should send the control panel email, not the confirmation email', async () => {
+      mockLoopsClientInstance.getTransactionalEmails.mockResolvedValue({
+        data: [
+          { id: 'email-123', name: 'Double Opt-In #EN', dataVariables: ['xOptInUrl'] },
+          { id: 'email-456', name: 'Control Panel Link #EN', dataVariables: ['xControlPanelUrl'] },
+        ],
+        pagination: { nextCursor: null, nextPage: null },
+      } as any);
+      mockLoopsClientInstance.sendTransactionalEmail.mockResolvedValue(undefined as any);
+
+      await provider.sendControlPanelMail('test@example.com', new URL('https://example.com/?token=abc#/'), 'en');
+
+      expect(mockLoopsClientInstance.sendTransactionalEmail).toHaveBeenCalledWith({
+        email: 'test@example.com',
+        transactionalId: 'email-456',
+        dataVariables: {
+          companyName: 'Test Company',
+          companyAddress: '123 Test St',
+          companyLogo: 'https://example.com/logo.png',
+          xControlPanelUrl: 'https://example.com/?token=abc#/',
+        },
+        headers: { 'Idempotency-Key': expect.any(String) },
+      });
+    });
+
+    it('should throw error when no control panel email is found', async () => {
+      mockLoopsClientInstance.getTransactionalEmails.mockResolvedValue({
+        data: [{ id: 'email-123', name: 'Double Opt-In #EN', dataVariables: ['xOptInUrl'] }],
+        pagination: { nextCursor: null, nextPage: null },
+      } as any);
+
+      await expect(
+        provider.sendControlPanelMail('test@example.com', new URL('https://example.com/'), 'en')
+      ).rejects.toThrow('No control panel email configured');
+    });
+  });
+
+  describe('checkControlPanelTemplates', () => {
+    it('should fail when no email has xControlPanelUrl', async () => {
+      mockLoopsClientInstance.getTransactionalEmails.mockResolvedValue({
+        data: [{ id: 'email-123', name: 'Double Opt-In #EN', dataVariables: ['xOptInUrl'] }],
+        pagination: { nextCursor: null, nextPage: null },
+      } as any);
+
+      const checks = await provider.checkControlPanelTemplates(['en']);
+
+      expect(checks).toEqual([expect.objectContaining({ name: 'Control panel email', status: 'error', message: 'No transactional email has the xControlPanelUrl data variable' })]);
+    });
+  });
+
+  describe('schema migrations', () => {
+    it('should create custom property', async () => {
       mockLoopsClientInstance.createContactProperty.mockResolvedValue(undefined as any);
 
-      await initialize();
+      await provider.createCustomProperty('language', 'string');
 
       expect(mockLoopsClientInstance.createContactProperty).toHaveBeenCalledWith('language', 'string');
-      expect(mockLoopsClientInstance.createContactProperty).toHaveBeenCalledWith('xOptInStatus', 'string');
     });
 
-    it('should not create properties that already exist', async () => {
+    it('should list custom properties', async () => {
       mockLoopsClientInstance.getCustomProperties.mockResolvedValue([
-        { key: 'language', type: 'string' },
-        { key: 'xOptInStatus', type: 'string' },
+        { key: 'language', label: 'Language', type: 'string' },
       ] as any);
 
-      await initialize();
+      expect(await provider.getCustomProperties()).toEqual([{ key: 'language', type: 'string' }]);
+      expect(mockLoopsClientInstance.getCustomProperties).toHaveBeenCalledWith('custom');
+    });
 
-      expect(mockLoopsClientInstance.createContactProperty).not.toHaveBeenCalled();
+    it('should refuse to change property type', async () => {
+      await expect(provider.retypeCustomProperty('score', 'number')).rejects.toThrow('Loops API cannot change type of property score');
     });
   });
 });
-
@@ -0,0 +1,72 @@
+import { Mailbox, mailbox } from '../mailbox';
+import { getMailer } from '../mailer';
+import * as provider from '../provider';
+
+describe('Mailbox', () => {
+  it('should keep the most recent messages first', () => {
+    const sink = new Mailbox(2);
+
+    sink.deliver({ recipient: 'a@example.com', template: 'confirmation', xOptInUrl: 'https://example.com/a' });
+    sink.deliver({ recipient: 'b@example.com', template: 'confirmation', xOptInUrl: 'https://example.com/b' });
+    sink.deliver({ recipient: 'c@example.com', template: 'confirmation', xOptInUrl: 'https://example.com/c' });
+
+    expect(sink.list().map((message) => message.recipient)).toEqual(['c@example.com', 'b@example.com']);
+  });
+
+  it('should be emptied', () => {
+    const sink = new Mailbox();
+    sink.deliver({ recipient: 'a@example.com', template: 'confirmation', xOptInUrl: 'https://example.com/a' });
+
+    sink.clear();
+
+    expect(sink.list()).toEqual([]);
+  });
+});
+
+describe('getMailer', () => {
+  const originalEnv = process.env;
+  const mockProvider = {
+    findConfirmationTemplate: jest.fn().mockResolvedValue('Double Opt-In #PL'),
+    sendConfirmationMail: jest.fn(),
+  };
+
+  beforeEach(() => {
+    jest.spyOn(provider, 'getProvider').mockReturnValue(mockProvider as unknown as provider.MailingProvider);
+    mailbox.clear();
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    jest.restoreAllMocks();
+  });
+
+  it('should record confirmation emails in development', async () => {
+    process.env = { ...originalEnv, NODE_ENV: 'development' };
+
+    await getMailer().sendConfirmationMail('test@example.com', new URL('http://localhost:8888/control-panel?token=abc'), 'pl');
+
+    expect(mockProvider.sendConfirmationMail).not.toHaveBeenCalled();
+    expect(mockProvider.findConfirmationTemplate).toHaveBeenCalledWith('pl');
+    expect(mailbox.list()).toEqual([expect.objectContaining({
+      recipient: 'test@example.com',
+      language: 'pl',
+      template: 'Double Opt-In #PL',
+      xOptInUrl: 'http://localhost:8888/control-panel?token=abc',
+    })]);
+  });
+
+  it('should send confirmation emails when mailbox is disabled', async () => {
+    process.env = { ...originalEnv, NODE_ENV: 'development', DEV_MAILBOX: 'false' };
+
+    await getMailer().sendConfirmationMail('test@example.com', new URL('http://localhost:8888/control-panel'), 'pl');
+
+    expect(mockProvider.sendConfirmationMail).toHaveBeenCalled();
+    expect(mailbox.list()).toEqual([]);
+  });
+
+  it('should send confirmation emails outside of development', async () => {
+    process.env = { ...originalEnv, NODE_ENV: 'production' };
+
+    expect(getMailer()).toBe(mockProvider);
+  });
+});
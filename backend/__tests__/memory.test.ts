@@ -0,0 +1,394 @@
+// Mock node-fetch before any imports that use it
+jest.mock('node-fetch', () => {
+  return jest.fn();
+});
+
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import request from 'supertest';
+import { MemoryProvider } from '../memory';
+
+describe('MemoryProvider', () => {
+  let provider: MemoryProvider;
+
+  beforeEach(() => {
+    provider = new MemoryProvider({});
+  });
+
+  describe('getMailingLists', () => {
+    it('should return only public mailing lists', async () => {
+      const lists = await provider.getMailingLists();
+
+      expect(lists.map((list) => list.id)).toEqual(['newsletter', 'announcements']);
+      expect(lists.every((list) => list.isPublic)).toBe(true);
+    });
+  });
+
+  describe('schema migrations', () => {
+    it('should create custom properties', async () => {
+      const file = path.join(await mkdtemp(path.join(tmpdir(), 'carajillo-')), 'store.json');
+      provider = new MemoryProvider({ file });
+
+      await provider.createCustomProperty('language', 'string');
+
+      const data = JSON.parse(await readFile(file, 'utf8'));
+      expect(data.customProperties).toEqual([{ key: 'language', type: 'string' }]);
+      await expect(provider.createCustomProperty('language', 'string')).rejects.toThrow('Property already exists: language');
+      await rm(path.dirname(file), { recursive: true });
+    });
+
+    it('should convert values when changing property type', async () => {
+      await provider.upsertContact('a@example.com', { score: '42' });
+      await provider.upsertContact('b@example.com', { score: 'n/a' });
+
+      await provider.retypeCustomProperty('score', 'number');
+
+      expect(await provider.getCustomProperties()).toContainEqual({ key: 'score', type: 'number' });
+      expect(await provider.findContact('a@example.com')).toEqual(expect.objectContaining({ score: 42 }));
+      expect(await provider.findContact('b@example.com')).toEqual(expect.objectContaining({ score: null }));
+    });
+
+    it('should backfill contacts without the property', async () => {
+      await provider.upsertContact('a@example.com', { source: 'form' });
+      await provider.upsertContact('b@example.com', {});
+
+      await provider.backfillProperty('source', (contact) => contact.email.endsWith('@example.com') ? 'import' : null);
+
+      expect(await provider.findContact('a@example.com')).toEqual(expect.objectContaining({ source: 'form' }));
+      expect(await provider.findContact('b@example.com')).toEqual(expect.objectContaining({ source: 'import' }));
+    });
+  });
+
+  describe('upsertContact', () => {
+    it('should create pending contact with all public mailing lists by default', async () => {
+      const contact = await provider.upsertContact('new@example.com', { firstName: 'John', language: 'en' });
+
+      expect(contact).toEqual(expect.objectContaining({
+        email: 'new@example.com',
+        subscribed: false,
+        optInStatus: 'pending',
+        mailingLists: { newsletter: true, announcements: true },
+        firstName: 'John',
+        language: 'en',
+      }));
+      expect(await provider.findContact('NEW@example.com')).toEqual(expect.objectContaining({
+        id: contact.id,
+        optInStatus: 'pending',
+        xOptInStatus: 'pending',
+      }));
+    });
+
+    it('should return existing contact', async () => {
+      const created = await provider.upsertContact('existing@example.com', { firstName: 'Jane' }, ['newsletter']);
+
+      const found = await provider.upsertContact('existing@example.com', { firstName: 'Joan' });
+
+      expect(found.id).toBe(created.id);
+      expect(found.mailingLists).toEqual({ newsletter: true });
+    });
+
+    it('should reject unknown mailing lists', async () => {
+      await expect(provider.upsertContact('new@example.com', {}, ['missing'])).rejects.toThrow('Mailing list not found: missing');
+    });
+  });
+
+  describe('updateContactProperties', () => {
+    it('should update properties without changing subscription', async () => {
+      await provider.upsertContact('test@example.com', { firstName: 'John' }, ['newsletter']);
+
+      await provider.updateContactProperties('test@example.com', { firstName: 'Jane', language: 'pl' });
+
+      expect(await provider.findContact('test@example.com')).toEqual(expect.objectContaining({
+        firstName: 'Jane',
+        language: 'pl',
+        optInStatus: 'pending',
+        mailingLists: { newsletter: true },
+      }));
+    });
+  });
+
+  describe('subscribeContact', () => {
+    it('should accept subscription and update mailing lists', async () => {
+      await provider.upsertContact('test@example.com', {}, ['newsletter']);
+
+      await provider.subscribeContact('test@example.com', { newsletter: false, internal: true });
+
+      expect(await provider.findContact('test@example.com')).toEqual(expect.objectContaining({
+        subscribed: true,
+        optInStatus: 'accepted',
+        mailingLists: { internal: true },
+      }));
+    });
+  });
+
+  describe('unsubscribeContact', () => {
+    it('should reject subscription', async () => {
+      await provider.upsertContact('test@example.com', {});
+
+      await provider.unsubscribeContact('test@example.com');
+
+      expect(await provider.findContact('test@example.com')).toEqual(expect.objectContaining({
+        subscribed: false,
+        optInStatus: 'rejected',
+      }));
+    });
+  });
+
+  describe('deleteContact', () => {
+    it('should remove the contact', async () => {
+      await provider.upsertContact('test@example.com', {});
+
+      await provider.deleteContact('Test@Example.com');
+
+      expect(await provider.findContact('test@example.com')).toBeNull();
+    });
+
+    it('should fail for unknown contact', async () => {
+      await expect(provider.deleteContact('unknown@example.com')).rejects.toThrow('Contact not found');
+    });
+  });
+
+  describe('file store', () => {
+    it('should keep contacts between provider instances', async () => {
+      const directory = await mkdtemp(path.join(tmpdir(), 'carajillo-'));
+      const file = path.join(directory, 'store.json');
+
+      await new MemoryProvider({ file }).upsertContact('test@example.com', { referer: 'https://example.com/' }, ['newsletter']);
+      const contact = await new MemoryProvider({ file }).findContact('test@example.com');
+
+      expect(contact).toEqual(expect.objectContaining({
+        email: 'test@example.com',
+        optInStatus: 'pending',
+        referer: 'https://example.com/',
+        mailingLists: { newsletter: true },
+      }));
+      await rm(directory, { recursive: true });
+    });
+  });
+
+  describe('offline subscription flow', () => {
+    const originalEnv = process.env;
+
+    afterEach(() => {
+      process.env = originalEnv;
+      jest.restoreAllMocks();
+    });
+
+    it('should subscribe, confirm and show the control panel without Loops', async () => {
+      process.env = { ...originalEnv, MAILING_PROVIDER: 'memory', CAPTCHA_PROVIDER: 'none', NUMBER_OF_PROXIES: '0' };
+      delete process.env.LOOPS_SO_SECRET;
+      const sendConfirmationMail = jest.spyOn(MemoryProvider.prototype, 'sendConfirmationMail');
+      const { app } = await import('../api');
+
+      await request(app)
+        .post('/api/subscription')
+        .send({ email: 'offline@example.com', mailingLists: ['newsletter'], language: 'en' })
+        .expect(200);
+      const confirmUrl = sendConfirmationMail.mock.calls[0][1] as URL;
+      const token = confirmUrl.searchParams.get('token');
+
+      const pending = await request(app)
+        .get('/api/subscription')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(200);
+      expect(pending.body).toEqual(expect.objectContaining({ optInStatus: 'pending', subscribed: false }));
+
+      const confirmation = await request(app)
+        .put('/api/subscription')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ email: 'offline@example.com', subscribe: true })
+        .expect(200);
+      const manageToken = confirmation.body.token;
+
+      const replay = await request(app)
+        .put('/api/subscription')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ email: 'offline@example.com', subscribe: true })
+        .expect(401);
+      expect(replay.body.reason).toBe('used-token');
+      await request(app)
+        .put('/api/subscription')
+        .set('Authorization', `Bearer ${manageToken}`)
+        .send({ email: 'offline@example.com', subscribe: true, mailingLists: { newsletter: true } })
+        .expect(200);
+
+      const confirmed = await request(app)
+        .get('/api/subscription')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(200);
+      expect(confirmed.body).toEqual(expect.objectContaining({ optInStatus: 'accepted', subscribed: true }));
+      expect(confirmed.body.mailingLists).toEqual([
+        expect.objectContaining({ id: 'newsletter', subscribed: true }),
+        expect.objectContaining({ id: 'announcements', subscribed: false }),
+      ]);
+    });
+
+    it('should change one mailing list with the link from the admin API', async () => {
+      process.env = { ...originalEnv, MAILING_PROVIDER: 'memory', CAPTCHA_PROVIDER: 'none', NUMBER_OF_PROXIES: '0', ADMIN_SECRET: 'admin-secret' };
+      delete process.env.LOOPS_SO_SECRET;
+      const sendConfirmationMail = jest.spyOn(MemoryProvider.prototype, 'sendConfirmationMail');
+      const { app } = await import('../api');
+      await request(app)
+        .post('/api/subscription')
+        .send({ email: 'lists@example.com', language: 'en' })
+        .expect(200);
+      await request(app)
+        .put('/api/subscription')
+        .set('Authorization', `Bearer ${(sendConfirmationMail.mock.calls[0][1] as URL).searchParams.get('token')}`)
+        .send({ email: 'lists@example.com', subscribe: true })
+        .expect(200);
+
+      const link = await request(app)
+        .get('/api/admin/contacts/lists%40example.com/list-link?list=newsletter&action=unsubscribe')
+        .set('Authorization', 'Bearer admin-secret')
+        .expect(200);
+      const url = new URL(link.body.url);
+      expect(url.pathname).toBe('/control-panel');
+      expect(url.searchParams.get('list')).toBe('newsletter');
+      expect(url.searchParams.get('action')).toBe('unsubscribe');
+
+      await request(app)
+        .put('/api/subscription')
+        .set('Authorization', `Bearer ${url.searchParams.get('token')}`)
+        .send({ email: 'lists@example.com', subscribe: true, mailingLists: { newsletter: false } })
+        .expect(200);
+      const status = await request(app)
+        .get('/api/subscription')
+        .set('Authorization', `Bearer ${url.searchParams.get('token')}`)
+        .expect(200);
+      expect(status.body.mailingLists).toEqual([
+        expect.objectContaining({ id: 'newsletter', subscribed: false }),
+        expect.objectContaining({ id: 'announcements', subscribed: true }),
+      ]);
+      await request(app)
+        .get('/api/admin/contacts/unknown%40example.com/list-link?list=newsletter&action=unsubscribe')
+        .set('Authorization', 'Bearer admin-secret')
+        .expect(404);
+    });
+
+    it('should confirm once when the confirmation link is used twice at the same time', async () => {
+      process.env = { ...originalEnv, MAILING_PROVIDER: 'memory', CAPTCHA_PROVIDER: 'none', NUMBER_OF_PROXIES: '0' };
+      delete process.env.LOOPS_SO_SECRET;
+      const sendConfirmationMail = jest.spyOn(MemoryProvider.prototype, 'sendConfirmationMail');
+      const { app } = await import('../api');
+
+      await request(app)
+        .post('/api/subscription')
+        .send({ email: 'race@example.com', language: 'en' })
+        .expect(200);
+      const token = (sendConfirmationMail.mock.calls[0][1] as URL).searchParams.get('token');
+      const confirm = () => request(app)
+        .put('/api/subscription')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ email: 'race@example.com', subscribe: true });
+
+      const responses = await Promise.all([confirm(), confirm()]);
+
+      expect(responses.map((response) => response.status).sort()).toEqual([200, 401]);
+    });
+
+    it('should not delete data with a used confirmation link', async () => {
+      process.env = { ...originalEnv, MAILING_PROVIDER: 'memory', CAPTCHA_PROVIDER: 'none', NUMBER_OF_PROXIES: '0' };
+      delete process.env.LOOPS_SO_SECRET;
+      const sendConfirmationMail = jest.spyOn(MemoryProvider.prototype, 'sendConfirmationMail');
+      const { app } = await import('../api');
+
+      await request(app)
+        .post('/api/subscription')
+        .send({ email: 'forwarded@example.com', language: 'en' })
+        .expect(200);
+      const token = (sendConfirmationMail.mock.calls[0][1] as URL).searchParams.get('token');
+      await request(app)
+        .put('/api/subscription')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ email: 'forwarded@example.com', subscribe: true })
+        .expect(200);
+
+      const deletion = await request(app)
+        .delete('/api/subscription')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(401);
+      expect(deletion.body.reason).toBe('used-token');
+      const session = await request(app)
+        .post('/api/session')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(401);
+      expect(session.body.reason).toBe('used-token');
+
+      const status = await request(app)
+        .get('/api/subscription')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(200);
+      expect(status.body).toEqual(expect.objectContaining({ subscribed: true }));
+    });
+
+    it('should accept the confirmation link again when the confirmation failed', async () => {
+      process.env = { ...originalEnv, MAILING_PROVIDER: 'memory', CAPTCHA_PROVIDER: 'none', NUMBER_OF_PROXIES: '0' };
+      delete process.env.LOOPS_SO_SECRET;
+      const sendConfirmationMail = jest.spyOn(MemoryProvider.prototype, 'sendConfirmationMail');
+      const { app } = await import('../api');
+
+      await request(app)
+        .post('/api/subscription')
+        .send({ email: 'retry@example.com', language: 'en' })
+        .expect(200);
+      const token = (sendConfirmationMail.mock.calls[0][1] as URL).searchParams.get('token');
+      jest.spyOn(MemoryProvider.prototype, 'subscribeContact').mockRejectedValueOnce(new Error('provider is down'));
+
+      await request(app)
+        .put('/api/subscription')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ email: 'retry@example.com', subscribe: true })
+        .expect(500);
+      const retry = await request(app)
+        .put('/api/subscription')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ email: 'retry@example.com', subscribe: true })
+        .expect(200);
+
+      expect(retry.body).toEqual(expect.objectContaining({ subscribed: true, token: expect.any(String) }));
+    });
+
+    it('should confirm in a session opened with the link', async () => {
+      process.env = { ...originalEnv, MAILING_PROVIDER: 'memory', CAPTCHA_PROVIDER: 'none', NUMBER_OF_PROXIES: '0' };
+      delete process.env.LOOPS_SO_SECRET;
+      const sendConfirmationMail = jest.spyOn(MemoryProvider.prototype, 'sendConfirmationMail');
+      const { app } = await import('../api');
+
+      await request(app)
+        .post('/api/subscription')
+        .send({ email: 'session@example.com', language: 'en' })
+        .expect(200);
+      const token = (sendConfirmationMail.mock.calls[0][1] as URL).searchParams.get('token');
+
+      const session = await request(app)
+        .post('/api/session')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(200);
+      const extended = await request(app)
+        .post('/api/session')
+        .set('Authorization', `Bearer ${session.body.token}`)
+        .expect(403);
+      expect(extended.body.reason).toBe('session-token');
+
+      const confirmation = await request(app)
+        .put('/api/subscription')
+        .set('Authorization', `Bearer ${session.body.token}`)
+        .send({ email: 'session@example.com', subscribe: true })
+        .expect(200);
+      const replay = await request(app)
+        .put('/api/subscription')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ email: 'session@example.com', subscribe: true })
+        .expect(401);
+      expect(replay.body.reason).toBe('used-token');
+
+      const manageSession = await request(app)
+        .post('/api/session')
+        .set('Authorization', `Bearer ${confirmation.body.token}`)
+        .expect(403);
+      expect(manageSession.body.reason).toBe('session-token');
+    });
+  });
+});
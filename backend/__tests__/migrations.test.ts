@@ -0,0 +1,123 @@
+import { MemoryProvider } from '../memory';
+import {
+  addProperty,
+  backfillProperty,
+  CUSTOM_PROPERTIES,
+  getAppliedVersion,
+  migrate,
+  Migration,
+  MIGRATIONS,
+  pendingBackfill,
+  propertiesAfter,
+  retypeProperty,
+} from '../migrations';
+import type { Contact } from '../provider';
+import { MemoryStore } from '../store';
+
+describe('migrations', () => {
+  let provider: MemoryProvider;
+  let store: MemoryStore;
+
+  const migrations: Migration[] = [
+    ...MIGRATIONS,
+    {
+      version: 3,
+      description: 'lead score',
+      operations: [addProperty('score', 'string'), backfillProperty('score', '0')],
+    },
+    {
+      version: 4,
+      description: 'numeric lead score',
+      operations: [retypeProperty('score', 'number')],
+    },
+  ];
+
+  beforeEach(() => {
+    provider = new MemoryProvider({});
+    store = new MemoryStore();
+  });
+
+  describe('migrate', () => {
+    it('should create custom properties and record the version', async () => {
+      const version = await migrate(provider, store);
+
+      expect(version).toBe(2);
+      expect(await getAppliedVersion(store)).toBe(2);
+      expect(await provider.getCustomProperties()).toEqual([
+        { key: 'language', type: 'string' },
+        { key: 'xOptInStatus', type: 'string' },
+        { key: 'xTokenGeneration', type: 'number' },
+      ]);
+    });
+
+    it('should keep existing properties', async () => {
+      await provider.createCustomProperty('language', 'string');
+      const createCustomProperty = jest.spyOn(provider, 'createCustomProperty');
+
+      await migrate(provider, store);
+
+      expect(createCustomProperty).toHaveBeenCalledTimes(2);
+      expect(createCustomProperty).toHaveBeenCalledWith('xOptInStatus', 'string');
+      expect(createCustomProperty).toHaveBeenCalledWith('xTokenGeneration', 'number');
+    });
+
+    it('should apply only pending migrations', async () => {
+      await migrate(provider, store);
+      const getCustomProperties = jest.spyOn(provider, 'getCustomProperties');
+
+      expect(await migrate(provider, store)).toBe(2);
+      expect(getCustomProperties).not.toHaveBeenCalled();
+    });
+
+    it('should add, backfill and retype properties', async () => {
+      await migrate(provider, store);
+      await provider.upsertContact('existing@example.com', {});
+
+      expect(await migrate(provider, store, migrations)).toBe(4);
+
+      expect(await provider.getCustomProperties()).toContainEqual({ key: 'score', type: 'number' });
+      expect(await provider.findContact('existing@example.com')).toEqual(expect.objectContaining({ score: 0 }));
+    });
+
+    it('should stop at the failed migration', async () => {
+      await provider.createCustomProperty('score', 'boolean');
+
+      await expect(migrate(provider, store, migrations)).rejects.toThrow('Property score already exists with type boolean, expected string');
+      expect(await getAppliedVersion(store)).toBe(2);
+    });
+
+    it('should reject migrations out of order', async () => {
+      await expect(migrate(provider, store, [migrations[0], migrations[3]])).rejects.toThrow('Migration versions must start at 1 and increase by one');
+    });
+  });
+
+  describe('pendingBackfill', () => {
+    const contact = { id: '1', email: 'test@example.com', subscribed: true, mailingLists: {}, optInStatus: 'accepted' } as Contact;
+
+    it('should return backfilled properties missing on the contact', () => {
+      expect(pendingBackfill(contact, migrations)).toEqual({ score: '0' });
+      expect(pendingBackfill({ ...contact, score: 5 } as Contact, migrations)).toEqual({});
+    });
+
+    it('should compute values from the contact', () => {
+      const computed: Migration[] = [{
+        version: 1,
+        description: 'domain',
+        operations: [backfillProperty('domain', (contact) => contact.email.split('@')[1])],
+      }];
+
+      expect(pendingBackfill(contact, computed)).toEqual({ domain: 'example.com' });
+    });
+  });
+
+  describe('CUSTOM_PROPERTIES', () => {
+    it('should list properties after all migrations', () => {
+      expect(CUSTOM_PROPERTIES).toEqual([
+        { key: 'language', type: 'string' },
+        { key: 'xOptInStatus', type: 'string' },
+        { key: 'xTokenGeneration', type: 'number' },
+      ]);
+      expect(propertiesAfter(migrations)).toContainEqual({ key: 'score', type: 'number' });
+    });
+  });
+});
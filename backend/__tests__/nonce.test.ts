@@ -0,0 +1,52 @@
+import { consumeNonce, purgeExpiredNonces, releaseNonce } from '../nonce';
+import { MemoryStore } from '../store';
+
+describe('nonce', () => {
+  let store: MemoryStore;
+
+  beforeEach(() => {
+    store = new MemoryStore();
+  });
+
+  describe('consumeNonce', () => {
+    it('should accept token ID once', async () => {
+      const expiresAt = new Date(Date.now() + 60_000);
+
+      expect(await consumeNonce(store, 'token-1', expiresAt)).toBe(true);
+      expect(await consumeNonce(store, 'token-1', expiresAt)).toBe(false);
+      expect(await consumeNonce(store, 'token-2', expiresAt)).toBe(true);
+    });
+
+    it('should accept token ID once when requests race', async () => {
+      const expiresAt = new Date(Date.now() + 60_000);
+
+      const consumed = await Promise.all([consumeNonce(store, 'token-1', expiresAt), consumeNonce(store, 'token-1', expiresAt)]);
+
+      expect(consumed.sort()).toEqual([false, true]);
+    });
+  });
+
+  describe('releaseNonce', () => {
+    it('should accept released token ID again', async () => {
+      const expiresAt = new Date(Date.now() + 60_000);
+      await consumeNonce(store, 'token-1', expiresAt);
+
+      await releaseNonce(store, 'token-1');
+
+      expect(await consumeNonce(store, 'token-1', expiresAt)).toBe(true);
+    });
+  });
+
+  describe('purgeExpiredNonces', () => {
+    it('should remove records of expired tokens only', async () => {
+      await consumeNonce(store, 'expired', new Date('2026-01-01T00:00:00Z'));
+      await consumeNonce(store, 'valid', new Date('2026-03-01T00:00:00Z'));
+      await store.set('migrations/state', { version: 1 });
+
+      expect(await purgeExpiredNonces(store, new Date('2026-02-01T00:00:00Z'))).toBe(1);
+
+      expect((await store.list()).sort()).toEqual(['migrations/state', 'nonces/valid']);
+      expect(await consumeNonce(store, 'valid', new Date('2026-03-01T00:00:00Z'))).toBe(false);
+    });
+  });
+});
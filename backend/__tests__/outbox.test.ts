@@ -0,0 +1,123 @@
+import { enqueue, isTransientError, processOutbox, removeEntries, retryDelay, MAX_ATTEMPTS, OutboxEntry } from '../outbox';
+import { HttpError } from '../error';
+import { MemoryStore } from '../store';
+
+describe('outbox', () => {
+  const queuedAt = new Date('2026-02-01T00:00:00Z');
+  const later = (minutes: number) => new Date(queuedAt.getTime() + minutes * 60_000);
+  let store: MemoryStore;
+
+  beforeEach(() => {
+    store = new MemoryStore();
+  });
+
+  describe('retryDelay', () => {
+    it('should double the delay up to 6 hours', () => {
+      expect(retryDelay(1)).toBe(60_000);
+      expect(retryDelay(2)).toBe(120_000);
+      expect(retryDelay(4)).toBe(480_000);
+      expect(retryDelay(20)).toBe(6 * 60 * 60_000);
+    });
+  });
+
+  describe('processOutbox', () => {
+    it('should not retry before the backoff delay', async () => {
+      await enqueue(store, { email: 'a@example.com' }, new Error('Loops is down'), queuedAt);
+      const deliver = jest.fn();
+
+      expect(await processOutbox(store, deliver, later(0.5))).toEqual({ delivered: 0, postponed: 0, dropped: 0, deadLettered: 0 });
+      expect(deliver).not.toHaveBeenCalled();
+    });
+
+    it('should remove delivered entries', async () => {
+      await enqueue(store, { email: 'a@example.com' }, new Error('Loops is down'), queuedAt);
+      const deliver = jest.fn().mockResolvedValue(undefined);
+
+      expect(await processOutbox(store, deliver, later(1))).toEqual({ delivered: 1, postponed: 0, dropped: 0, deadLettered: 0 });
+      expect(deliver).toHaveBeenCalledWith({ email: 'a@example.com' });
+      expect(await store.list('outbox/')).toEqual([]);
+    });
+
+    it('should postpone entries failing again with a longer delay', async () => {
+      const key = await enqueue(store, { email: 'a@example.com' }, new Error('Loops is down'), queuedAt);
+      const deliver = jest.fn().mockRejectedValue(new HttpError({ statusCode: 503, reason: 'service-unavailable', message: 'Loops is still down' }));
+
+      expect(await processOutbox(store, deliver, later(1))).toEqual({ delivered: 0, postponed: 1, dropped: 0, deadLettered: 0 });
+
+      expect(await store.get<OutboxEntry<unknown>>(key)).toEqual(expect.objectContaining({
+        attempts: 2,
+        nextAttemptAt: later(3).toISOString(),
+        lastError: 'Loops is still down',
+      }));
+    });
+
+    it('should drop entries failing with a client error', async () => {
+      await enqueue(store, { email: 'a@example.com' }, new Error('Loops is down'), queuedAt);
+      const deliver = jest.fn().mockRejectedValue(new HttpError({ statusCode: 429, message: 'Try again later' }));
+
+      expect(await processOutbox(store, deliver, later(1))).toEqual({ delivered: 0, postponed: 0, dropped: 1, deadLettered: 0 });
+      expect(await store.list('outbox/')).toEqual([]);
+    });
+
+    it('should deliver oldest entries first', async () => {
+      await enqueue(store, { email: 'b@example.com' }, new Error('Loops is down'), later(1));
+      await enqueue(store, { email: 'a@example.com' }, new Error('Loops is down'), queuedAt);
+      const deliver = jest.fn().mockResolvedValue(undefined);
+
+      await processOutbox(store, deliver, later(10));
+
+      expect(deliver.mock.calls).toEqual([[{ email: 'a@example.com' }], [{ email: 'b@example.com' }]]);
+    });
+  });
+
+  describe('isTransientError', () => {
+    it('should retry outages and network failures', () => {
+      expect(isTransientError(new HttpError({ statusCode: 503, reason: 'service-unavailable', message: 'Service temporarily unavailable' }))).toBe(true);
+      expect(isTransientError(new HttpError({ statusCode: 503, reason: 'circuit-open', message: 'Service temporarily unavailable' }))).toBe(true);
+      expect(isTransientError(new TypeError('fetch failed'))).toBe(true);
+      expect(isTransientError(Object.assign(new Error('connect ECONNREFUSED'), { code: 'ECONNREFUSED' }))).toBe(true);
+      expect(isTransientError(Object.assign(new Error('Mailbox busy'), { responseCode: 450 }))).toBe(true);
+    });
+
+    it('should not retry client and configuration errors', () => {
+      expect(isTransientError(new HttpError({ statusCode: 429, message: 'Try again later' }))).toBe(false);
+      expect(isTransientError(Object.assign(new Error('400 - Invalid email'), { statusCode: 400 }))).toBe(false);
+      expect(isTransientError(new Error('Mailing list not found: list-9'))).toBe(false);
+      expect(isTransientError(new TypeError("Cannot read properties of undefined (reading 'email')"))).toBe(false);
+      expect(isTransientError(Object.assign(new Error('Mailbox unavailable'), { responseCode: 550 }))).toBe(false);
+    });
+
+    it('should not retry server errors of the service itself', () => {
+      expect(isTransientError(new HttpError({ statusCode: 500, message: 'Configuration error' }))).toBe(false);
+      expect(isTransientError(new HttpError({ statusCode: 503, message: 'Service temporarily unavailable' }))).toBe(false);
+    });
+  });
+
+  describe('dead letter queue', () => {
+    it('should move entries failing too many times', async () => {
+      const key = await enqueue(store, { email: 'a@example.com' }, new Error('Loops is down'), queuedAt);
+      await store.set(key, { ...await store.get<OutboxEntry<unknown>>(key), attempts: MAX_ATTEMPTS - 1 });
+      const deliver = jest.fn().mockRejectedValue(new HttpError({ statusCode: 503, reason: 'service-unavailable', message: 'Loops is still down' }));
+
+      expect(await processOutbox(store, deliver, later(1))).toEqual({ delivered: 0, postponed: 0, dropped: 0, deadLettered: 1 });
+      expect(await store.list('outbox/')).toEqual([]);
+      expect(await store.get<OutboxEntry<unknown>>(`dead-letter/${key}`)).toEqual(expect.objectContaining({
+        payload: { email: 'a@example.com' },
+        attempts: MAX_ATTEMPTS,
+        lastError: 'Loops is still down',
+      }));
+    });
+  });
+
+  describe('removeEntries', () => {
+    it('should remove matching entries only', async () => {
+      await enqueue(store, { email: 'a@example.com' }, new Error('Loops is down'), queuedAt);
+      await enqueue(store, { email: 'b@example.com' }, new Error('Loops is down'), queuedAt);
+
+      expect(await removeEntries<{ email: string }>(store, ({ email }) => email === 'a@example.com')).toBe(1);
+
+      const [key] = await store.list('outbox/');
+      expect(await store.get<OutboxEntry<{ email: string }>>(key)).toMatchObject({ payload: { email: 'b@example.com' } });
+    });
+  });
+});
@@ -0,0 +1,34 @@
+import { createProvider, getProvider } from '../provider';
+import { LoopsProvider } from '../loops';
+import { loadConfiguration } from '../config';
+
+describe('provider', () => {
+  describe('createProvider', () => {
+    it('should create Loops provider', () => {
+      const config = loadConfiguration({ ...process.env, MAILING_PROVIDER: 'loops' });
+
+      expect(createProvider(config)).toBeInstanceOf(LoopsProvider);
+    });
+
+    it('should require Loops API key', () => {
+      const env: NodeJS.ProcessEnv = { ...process.env, MAILING_PROVIDER: 'loops' };
+      delete env.LOOPS_SO_SECRET;
+
+      expect(() => loadConfiguration(env)).toThrow('LOOPS_SO_SECRET is not set');
+    });
+
+    it('should reject unknown provider', () => {
+      expect(() => loadConfiguration({ ...process.env, MAILING_PROVIDER: 'mailchimp' })).toThrow('Unsupported mailing provider: mailchimp');
+    });
+
+    it('should name the variable with invalid timeout', () => {
+      expect(() => loadConfiguration({ ...process.env, MAILING_PROVIDER: 'loops', LOOPS_TIMEOUT: 'soon' })).toThrow('LOOPS_TIMEOUT must be a valid time delta: soon');
+    });
+  });
+
+  describe('getProvider', () => {
+    it('should reuse the provider instance', () => {
+      expect(getProvider()).toBe(getProvider());
+    });
+  });
+});
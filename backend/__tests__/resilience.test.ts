@@ -0,0 +1,210 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { Cache } from '../cache';
+import { LoopsProvider } from '../loops';
+import { CircuitBreaker, parseRetryAfter } from '../resilience';
+import { MemoryStore } from '../store';
+
+type FakeResponse = { status: number; body?: object; delay?: number; headers?: Record<string, string> };
+
+describe('resilience', () => {
+  describe('CircuitBreaker', () => {
+    const policy = { failureThreshold: 2, resetTimeout: 1000 };
+    let now: number;
+    let breaker: CircuitBreaker;
+
+    beforeEach(() => {
+      now = 0;
+      breaker = new CircuitBreaker('Test', policy, () => now);
+    });
+
+    it('should open after consecutive failures', () => {
+      breaker.failure();
+      breaker.success();
+      breaker.failure();
+      expect(breaker.state).toBe('closed');
+
+      breaker.failure();
+
+      expect(breaker.state).toBe('open');
+      expect(() => breaker.check()).toThrow(expect.objectContaining({ statusCode: 503, reason: 'circuit-open' }));
+    });
+
+    it('should close after a successful trial when half-open', () => {
+      breaker.failure();
+      breaker.failure();
+      now = 1000;
+      expect(breaker.state).toBe('half-open');
+      expect(() => breaker.check()).not.toThrow();
+
+      breaker.success();
+
+      expect(breaker.state).toBe('closed');
+    });
+
+    it('should let a single trial call through when half-open', () => {
+      breaker.failure();
+      breaker.failure();
+      now = 1000;
+
+      expect(() => breaker.check()).not.toThrow();
+      expect(() => breaker.check()).toThrow(expect.objectContaining({ statusCode: 503, reason: 'circuit-open' }));
+
+      breaker.success();
+
+      expect(() => breaker.check()).not.toThrow();
+      expect(() => breaker.check()).not.toThrow();
+    });
+
+    it('should let the next trial call through after a failed trial', () => {
+      breaker.failure();
+      breaker.failure();
+      now = 1000;
+      breaker.check();
+      breaker.failure();
+      expect(() => breaker.check()).toThrow(expect.objectContaining({ reason: 'circuit-open' }));
+
+      now = 2000;
+
+      expect(() => breaker.check()).not.toThrow();
+      expect(() => breaker.check()).toThrow(expect.objectContaining({ reason: 'circuit-open' }));
+    });
+
+    it('should open again after a failed trial', () => {
+      breaker.failure();
+      breaker.failure();
+      now = 1000;
+
+      breaker.failure();
+
+      expect(breaker.state).toBe('open');
+    });
+  });
+
+  describe('parseRetryAfter', () => {
+    const now = Date.parse('2026-10-19T12:00:00.000Z');
+
+    it('should parse seconds', () => {
+      expect(parseRetryAfter('3', now)).toBe(3000);
+    });
+
+    it('should parse HTTP date', () => {
+      expect(parseRetryAfter('Mon, 19 Oct 2026 12:00:05 GMT', now)).toBe(5000);
+      expect(parseRetryAfter('Mon, 19 Oct 2026 11:00:00 GMT', now)).toBe(0);
+    });
+
+    it('should ignore missing or invalid values', () => {
+      expect(parseRetryAfter(null, now)).toBeUndefined();
+      expect(parseRetryAfter('soon', now)).toBeUndefined();
+    });
+  });
+
+  describe('LoopsProvider against a fake Loops API', () => {
+    let server: Server;
+    let apiRoot: string;
+    let responses: FakeResponse[];
+    let requests: IncomingMessage[];
+
+    const contact = { id: 'contact-1', email: 'test@example.com', subscribed: true, xOptInStatus: 'accepted', mailingLists: {} };
+
+    const createProvider = (timeout = 1000, retries = 2) => {
+      const provider = new LoopsProvider({ apiKey: 'test-api-key', timeout, retries }, new Cache(new MemoryStore(), { ttl: 0, staleWhileRevalidate: 0 }));
+      provider['loops'].apiRoot = apiRoot;
+      return provider;
+    };
+
+    beforeEach(async () => {
+      responses = [];
+      requests = [];
+      server = createServer((req: IncomingMessage, res: ServerResponse) => {
+        requests.push(req);
+        const { status, body, delay, headers } = responses.shift() ?? { status: 200, body: [contact] };
+        setTimeout(() => {
+          res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+          res.end(JSON.stringify(body ?? {}));
+        }, delay ?? 0);
+      });
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+      apiRoot = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/`;
+    });
+
+    afterEach(async () => {
+      server.closeAllConnections();
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    });
+
+    it('should retry server errors', async () => {
+      responses.push({ status: 502, body: { message: 'Bad gateway' } }, { status: 500, body: { message: 'Oops' } });
+
+      expect(await createProvider().findContact('test@example.com')).toEqual(expect.objectContaining({ email: 'test@example.com' }));
+      expect(requests).toHaveLength(3);
+    });
+
+    it('should wait out the rate limit', async () => {
+      responses.push({ status: 429 });
+      const started = Date.now();
+
+      expect(await createProvider().getMailingLists()).toEqual([]);
+      expect(Date.now() - started).toBeGreaterThanOrEqual(1000);
+      expect(requests).toHaveLength(2);
+    });
+
+    it('should wait as long as Retry-After asks', async () => {
+      responses.push({ status: 429, headers: { 'Retry-After': '2' } });
+      const started = Date.now();
+
+      expect(await createProvider().getMailingLists()).toEqual([]);
+      expect(Date.now() - started).toBeGreaterThanOrEqual(2000);
+      expect(requests).toHaveLength(2);
+    });
+
+    it('should fail at once when Retry-After is too long', async () => {
+      responses.push({ status: 429, headers: { 'Retry-After': '60' } });
+
+      await expect(createProvider().getMailingLists())
+        .rejects.toThrow(expect.objectContaining({ statusCode: 503, reason: 'service-unavailable' }));
+      expect(requests).toHaveLength(1);
+    });
+
+    it('should fail with 503 when retries are exhausted', async () => {
+      responses.push({ status: 503 }, { status: 503 });
+
+      await expect(createProvider(1000, 1).findContact('test@example.com'))
+        .rejects.toThrow(expect.objectContaining({ statusCode: 503, reason: 'service-unavailable' }));
+      expect(requests).toHaveLength(2);
+    });
+
+    it('should time out slow calls', async () => {
+      responses.push({ status: 200, body: [contact], delay: 500 });
+
+      await expect(createProvider(100, 0).findContact('test@example.com'))
+        .rejects.toThrow(expect.objectContaining({ statusCode: 503, reason: 'service-unavailable' }));
+    });
+
+    it('should not retry client errors', async () => {
+      responses.push({ status: 400, body: { message: 'Invalid email' } });
+
+      await expect(createProvider().findContact('invalid')).rejects.toThrow('400 - Invalid email');
+      expect(requests).toHaveLength(1);
+    });
+
+    it('should not retry creating contacts', async () => {
+      responses.push({ status: 200, body: [] }, { status: 500, body: { message: 'Oops' } });
+
+      await expect(createProvider().upsertContact('new@example.com', {}, ['list-1']))
+        .rejects.toThrow(expect.objectContaining({ statusCode: 503 }));
+      expect(requests.map((request) => request.method)).toEqual(['GET', 'POST']);
+    });
+
+    it('should fail fast when the circuit is open', async () => {
+      const provider = createProvider(1000, 0);
+      for (let i = 0; i < 5; i++) {
+        responses.push({ status: 500, body: { message: 'Oops' } });
+        await expect(provider.findContact('test@example.com')).rejects.toThrow(expect.objectContaining({ statusCode: 503 }));
+      }
+
+      await expect(provider.findContact('test@example.com')).rejects.toThrow(expect.objectContaining({ statusCode: 503, reason: 'circuit-open' }));
+      expect(requests).toHaveLength(5);
+    });
+  });
+});
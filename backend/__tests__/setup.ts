@@ -14,3 +14,4 @@ process.env.COMPANY_ADDRESS = process.env.COMPANY_ADDRESS || '123 Test St';
 process.env.COMPANY_LOGO = process.env.COMPANY_LOGO || 'https://example.com/logo.png';
 process.env.JWT_EXPIRATION = process.env.JWT_EXPIRATION || '1 year';
 
+process.env.STORE = process.env.STORE || 'memory';
@@ -0,0 +1,142 @@
+import { AddressInfo } from 'net';
+import path from 'path';
+import { SMTPServer } from 'smtp-server';
+import { getMailer } from '../mailer';
+import { SmtpMailer } from '../smtp';
+
+const templates = path.resolve(__dirname, '../../templates/confirmation');
+const controlPanelTemplates = path.resolve(__dirname, '../../templates/control-panel');
+const company = { name: 'Test & Co', address: '123 Test St', logo: 'https://example.com/logo.png' };
+
+describe('SmtpMailer', () => {
+  let server: SMTPServer;
+  let url: string;
+  let received: string[];
+
+  beforeEach(async () => {
+    received = [];
+    server = new SMTPServer({
+      authOptional: true,
+      disabledCommands: ['STARTTLS'],
+      logger: false,
+      onData(stream, session, callback) {
+        let message = '';
+        stream.setEncoding('utf8');
+        stream.on('data', (chunk: string) => message += chunk);
+        stream.on('end', () => {
+          received.push(message);
+          callback();
+        });
+      },
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    url = `smtp://127.0.0.1:${(server.server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise<void>((resolve) => server.close(resolve));
+  });
+
+  describe('findConfirmationTemplate', () => {
+    it('should pick the template in the preferred language', async () => {
+      const mailer = new SmtpMailer({ url, from: 'newsletter@example.com', templates, controlPanelTemplates }, company);
+
+      expect(await mailer.findConfirmationTemplate('pl')).toBe('confirmation/pl');
+      expect(await mailer.findConfirmationTemplate('PL-pl')).toBe('confirmation/pl');
+    });
+
+    it('should fall back to english', async () => {
+      const mailer = new SmtpMailer({ url, from: 'newsletter@example.com', templates, controlPanelTemplates }, company);
+
+      expect(await mailer.findConfirmationTemplate('de')).toBe('confirmation/en');
+      expect(await mailer.findConfirmationTemplate('../../etc/passwd')).toBe('confirmation/en');
+      expect(await mailer.findConfirmationTemplate()).toBe('confirmation/en');
+    });
+
+    it('should fail without templates', async () => {
+      const mailer = new SmtpMailer({ url, from: 'newsletter@example.com', templates: path.join(templates, 'missing'), controlPanelTemplates }, company);
+
+      await expect(mailer.findConfirmationTemplate('en')).rejects.toThrow('No confirmation email template');
+    });
+  });
+
+  describe('sendConfirmationMail', () => {
+    it('should send rendered templates over SMTP', async () => {
+      const mailer = new SmtpMailer({ url, from: 'Test Co <newsletter@example.com>', templates, controlPanelTemplates }, company);
+      const confirmUrl = new URL('https://example.com/confirm?token=abc&lang=pl');
+
+      await mailer.sendConfirmationMail('test@example.com', confirmUrl, 'pl');
+
+      expect(received).toHaveLength(1);
+      const message = received[0];
+      expect(message).toMatch(/^From: Test Co <newsletter@example.com>$/m);
+      expect(message).toMatch(/^To: test@example.com$/m);
+      expect(message).toMatch(/^Subject: =\?UTF-8\?/m);
+      expect(message).toContain('Content-Type: text/plain');
+      expect(message).toContain('Content-Type: text/html');
+      // quoted-printable soft line breaks
+      const body = message.replace(/=\r?\n/g, '');
+      expect(body).toContain('https://example.com/confirm?token=3Dabc&lang=3Dpl');
+      expect(body).toContain('href=3D"https://example.com/confirm?token=3Dabc&amp;lang=3Dpl"');
+      expect(body).toContain('Test &amp; Co');
+      expect(body).toContain('123 Test St');
+      expect(body).not.toContain('{{');
+    });
+  });
+
+  describe('sendControlPanelMail', () => {
+    it('should send the control panel link with its own template', async () => {
+      const mailer = new SmtpMailer({ url, from: 'newsletter@example.com', templates, controlPanelTemplates }, company);
+
+      await mailer.sendControlPanelMail('test@example.com', new URL('https://example.com/?token=abc#/'), 'en');
+
+      expect(received).toHaveLength(1);
+      const body = received[0].replace(/=\r?\n/g, '');
+      expect(body).toMatch(/^Subject: Manage your Test & Co subscription$/m);
+      expect(body).toContain('href=3D"https://example.com/?token=3Dabc#/"');
+      expect(body).not.toContain('Confirm');
+      expect(body).not.toContain('{{');
+    });
+  });
+
+  describe('checkControlPanelTemplates', () => {
+    it('should check control panel templates of every locale', async () => {
+      const mailer = new SmtpMailer({ url, from: 'newsletter@example.com', templates, controlPanelTemplates }, company);
+
+      expect(await mailer.checkControlPanelTemplates(['en', 'pl', 'de'])).toEqual([
+        { name: 'Control panel template en', status: 'ok', message: 'control-panel/en' },
+        { name: 'Control panel template pl', status: 'ok', message: 'control-panel/pl' },
+        expect.objectContaining({ name: 'Control panel template de', status: 'warning' }),
+      ]);
+    });
+
+    it('should report missing templates', async () => {
+      const mailer = new SmtpMailer({ url, from: 'newsletter@example.com', templates, controlPanelTemplates: path.join(controlPanelTemplates, 'missing') }, company);
+
+      expect(await mailer.checkControlPanelTemplates(['en'])).toEqual([
+        expect.objectContaining({ status: 'error', message: expect.stringContaining('No control panel email template') }),
+      ]);
+    });
+  });
+});
+
+describe('getMailer', () => {
+  const originalEnv = process.env;
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it('should send confirmation emails over SMTP when configured', () => {
+    process.env = { ...originalEnv, NODE_ENV: 'production', CONFIRMATION_MAILER: 'smtp', SMTP_URL: 'smtp://127.0.0.1:2525', SMTP_FROM: 'newsletter@example.com' };
+
+    expect(getMailer()).toBeInstanceOf(SmtpMailer);
+  });
+
+  it('should require SMTP server', () => {
+    process.env = { ...originalEnv, CONFIRMATION_MAILER: 'smtp', SMTP_FROM: 'newsletter@example.com' };
+    delete process.env.SMTP_URL;
+
+    expect(() => getMailer()).toThrow('SMTP_URL is not set');
+  });
+});
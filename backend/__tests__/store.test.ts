@@ -0,0 +1,71 @@
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { FileStore, KeyValueStore, MemoryStore } from '../store';
+
+let directory: string;
+
+beforeAll(async () => {
+  directory = await mkdtemp(path.join(tmpdir(), 'carajillo-'));
+});
+
+afterAll(async () => {
+  await rm(directory, { recursive: true });
+});
+
+describe.each([
+  ['MemoryStore', () => new MemoryStore()],
+  ['FileStore', () => new FileStore(path.join(directory, `${expect.getState().currentTestName}.json`))],
+])('%s', (name, createStore: () => KeyValueStore) => {
+  let store: KeyValueStore;
+
+  beforeEach(() => {
+    store = createStore();
+  });
+
+  it('should return undefined for missing keys', async () => {
+    expect(await store.get('missing')).toBeUndefined();
+  });
+
+  it('should keep JSON values', async () => {
+    await store.set('migrations/state', { version: 1, appliedAt: '2026-01-01T00:00:00.000Z' });
+
+    expect(await store.get('migrations/state')).toEqual({ version: 1, appliedAt: '2026-01-01T00:00:00.000Z' });
+  });
+
+  it('should list keys by prefix and delete them', async () => {
+    await store.set('a/1', 1);
+    await store.set('a/2', 2);
+    await store.set('b/1', 3);
+
+    expect(await store.list('a/')).toEqual(['a/1', 'a/2']);
+
+    await store.delete('a/1');
+
+    expect(await store.list()).toEqual(['a/2', 'b/1']);
+  });
+
+  it('should create a key once', async () => {
+    expect(await store.create('nonces/1', 'first')).toBe(true);
+    expect(await store.create('nonces/1', 'second')).toBe(false);
+
+    expect(await store.get('nonces/1')).toBe('first');
+  });
+
+  it('should create a key once when writes race', async () => {
+    const created = await Promise.all([store.create('nonces/1', 1), store.create('nonces/1', 2), store.set('other', 3)]);
+
+    expect(created.slice(0, 2).sort()).toEqual([false, true]);
+    expect(await store.list()).toEqual(['nonces/1', 'other']);
+  });
+});
+
+describe('FileStore', () => {
+  it('should keep values between instances', async () => {
+    const file = path.join(directory, 'state.json');
+
+    await new FileStore(file).set('key', 'value');
+
+    expect(await new FileStore(file).get('key')).toBe('value');
+  });
+});
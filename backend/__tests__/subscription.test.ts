@@ -3,17 +3,42 @@ jest.mock('node-fetch', () => {
   return jest.fn();
 });
 
-import { subscribe, getSubscription, updateSubscription, SubscribeRequest } from '../subscription';
+const mockProvider = {
+  getMailingLists: jest.fn(),
+  findContact: jest.fn(),
+  upsertContact: jest.fn(),
+  updateContactProperties: jest.fn(),
+  subscribeContact: jest.fn(),
+  unsubscribeContact: jest.fn(),
+  deleteContact: jest.fn(),
+  sendConfirmationMail: jest.fn(),
+  sendControlPanelMail: jest.fn(),
+};
+
+jest.mock('../provider', () => ({
+  ...jest.requireActual('../provider'),
+  getProvider: () => mockProvider,
+}));
+jest.mock('../mailer', () => ({
+  getMailer: () => mockProvider,
+}));
+
+import { subscribe, getSubscription, exportSubscription, deleteSubscription, updateSubscription, verifyConfirmation, refreshLink, revokeLinks, listLinkUrl, authorizeListLink, mergeProperties, retryQueuedSubscriptions, SubscribeRequest } from '../subscription';
+import { getStore } from '../store';
+import { isSuppressed } from '../suppression';
+import { getConsentRecords, recordConsent } from '../consent';
+import type { Contact } from '../provider';
 import { HttpError } from '../error';
 import * as captcha from '../captcha';
-import * as loops from '../loops';
 import * as jwt from '../jwt';
+import fetch from 'node-fetch';
 
 jest.mock('../captcha');
-jest.mock('../loops');
 jest.mock('../jwt');
 
 describe('subscription', () => {
+  // Loops outage as reported by the resilience layer
+  const unavailable = new HttpError({ statusCode: 503, reason: 'service-unavailable', message: 'Service temporarily unavailable' });
 
   afterEach(() => {
     jest.clearAllMocks();
@@ -40,8 +65,8 @@ describe('subscription', () => {
     } as any);
 
     it('should successfully subscribe new contact', async () => {
-      (captcha.verifyCaptcha as jest.Mock).mockResolvedValue(true);
-      (loops.upsertContact as jest.Mock).mockResolvedValue({
+      (captcha.checkCaptcha as jest.Mock).mockResolvedValue({ valid: true });
+      (mockProvider.upsertContact as jest.Mock).mockResolvedValue({
         id: 'contact-123',
         email: 'test@example.com',
         subscribed: false,
@@ -49,7 +74,7 @@ describe('subscription', () => {
         mailingLists: { 'list-1': true },
       });
       (jwt.createToken as jest.Mock).mockReturnValue('jwt-token');
-      (loops.sendConfirmationMail as jest.Mock).mockResolvedValue(undefined);
+      (mockProvider.sendConfirmationMail as jest.Mock).mockResolvedValue(undefined);
 
       const mockReq = createMockRequest();
       const result = await subscribe(mockReq);
@@ -59,14 +84,41 @@ describe('subscription', () => {
         doubleOptIn: true,
         email: 'test@example.com',
       });
-      expect(captcha.verifyCaptcha).toHaveBeenCalledWith('subscribe', 'captcha-token', '192.168.1.1');
-      expect(loops.upsertContact).toHaveBeenCalled();
-      expect(loops.sendConfirmationMail).toHaveBeenCalledWith('test@example.com', new URL('https://example.com/control-panel?token=jwt-token&lang=en'), 'en');
+      expect(captcha.checkCaptcha).toHaveBeenCalledWith('subscribe', 'captcha-token', '192.168.1.1');
+      expect(mockProvider.upsertContact).toHaveBeenCalled();
+      expect(mockProvider.sendConfirmationMail).toHaveBeenCalledWith('test@example.com', new URL('https://example.com/control-panel?token=jwt-token&lang=en'), 'en');
+      expect(jwt.createToken).toHaveBeenCalledWith('test@example.com', new URL('https://example.com'), 'confirm', undefined);
+    });
+
+    it('should record consent with the CAPTCHA score', async () => {
+      (captcha.checkCaptcha as jest.Mock).mockResolvedValue({ valid: true, score: 0.9 });
+      (mockProvider.upsertContact as jest.Mock).mockResolvedValue({ email: 'test@example.com', optInStatus: 'pending', mailingLists: { 'list-1': true } });
+      (jwt.createToken as jest.Mock).mockReturnValue('jwt-token');
+
+      await subscribe(createMockRequest({ ...mockRequestBody, email: 'consent@example.com' } as SubscribeRequest));
+
+      expect(await getConsentRecords('consent@example.com')).toEqual([expect.objectContaining({
+        action: 'subscribe',
+        formUrl: 'https://example.com/page',
+        language: 'en',
+        captchaScore: 0.9,
+        mailingLists: { 'list-1': true },
+        ipHash: expect.stringMatching(/^[0-9a-f]{64}$/),
+      })]);
+    });
+
+    it('should not record consent of contact who rejected the subscription', async () => {
+      (captcha.checkCaptcha as jest.Mock).mockResolvedValue({ valid: true });
+      (mockProvider.upsertContact as jest.Mock).mockResolvedValueOnce({ email: 'refused@example.com', optInStatus: 'rejected', mailingLists: {} });
+
+      await expect(subscribe(createMockRequest({ ...mockRequestBody, email: 'refused@example.com' } as SubscribeRequest))).rejects.toThrow(expect.objectContaining({ statusCode: 429 }));
+
+      expect(await getConsentRecords('refused@example.com')).toEqual([]);
     });
 
     it('should throw HttpError when CAPTCHA verification fails', async () => {
       // Ensure the mock is set up correctly
-      (captcha.verifyCaptcha as jest.Mock).mockResolvedValueOnce(false);
+      (captcha.checkCaptcha as jest.Mock).mockResolvedValueOnce({ valid: false });
 
       const mockReq = createMockRequest();
       await expect(subscribe(mockReq)).rejects.toThrow();
@@ -79,13 +131,13 @@ describe('subscription', () => {
         expect(error.details).toBe('Requestor categorized as bot');
       }
       
-      // Verify verifyCaptcha was called
-      expect(captcha.verifyCaptcha).toHaveBeenCalledWith('subscribe', 'captcha-token', '192.168.1.1');
+      // Verify checkCaptcha was called
+      expect(captcha.checkCaptcha).toHaveBeenCalledWith('subscribe', 'captcha-token', '192.168.1.1');
     });
 
     it('should throw HttpError when contact has rejected optInStatus', async () => {
-      (captcha.verifyCaptcha as jest.Mock).mockResolvedValue(true);
-      (loops.upsertContact as jest.Mock).mockResolvedValue({
+      (captcha.checkCaptcha as jest.Mock).mockResolvedValue({ valid: true });
+      (mockProvider.upsertContact as jest.Mock).mockResolvedValue({
         id: 'contact-123',
         email: 'test@example.com',
         subscribed: false,
@@ -104,8 +156,8 @@ describe('subscription', () => {
     });
 
     it('should not send email when contact is already subscribed to all requested lists', async () => {
-      (captcha.verifyCaptcha as jest.Mock).mockResolvedValue(true);
-      (loops.upsertContact as jest.Mock).mockResolvedValue({
+      (captcha.checkCaptcha as jest.Mock).mockResolvedValue({ valid: true });
+      (mockProvider.upsertContact as jest.Mock).mockResolvedValue({
         id: 'contact-123',
         email: 'test@example.com',
         subscribed: true,
@@ -117,12 +169,12 @@ describe('subscription', () => {
       const result = await subscribe(mockReq);
 
       expect(result.success).toBe(true);
-      expect(loops.sendConfirmationMail).not.toHaveBeenCalled();
+      expect(mockProvider.sendConfirmationMail).not.toHaveBeenCalled();
     });
 
     it('should send email when contact is accepted but missing some mailing lists', async () => {
-      (captcha.verifyCaptcha as jest.Mock).mockResolvedValue(true);
-      (loops.upsertContact as jest.Mock).mockResolvedValue({
+      (captcha.checkCaptcha as jest.Mock).mockResolvedValue({ valid: true });
+      (mockProvider.upsertContact as jest.Mock).mockResolvedValue({
         id: 'contact-123',
         email: 'test@example.com',
         subscribed: true,
@@ -130,7 +182,7 @@ describe('subscription', () => {
         mailingLists: { 'list-1': true }, // Missing list-2
       });
       (jwt.createToken as jest.Mock).mockReturnValue('jwt-token');
-      (loops.sendConfirmationMail as jest.Mock).mockResolvedValue(undefined);
+      (mockProvider.sendConfirmationMail as jest.Mock).mockResolvedValue(undefined);
 
       const mockReq = createMockRequest({
         ...mockRequestBody,
@@ -140,7 +192,340 @@ describe('subscription', () => {
       const result = await subscribe(mockReq);
 
       expect(result.success).toBe(true);
-      expect(loops.sendConfirmationMail).toHaveBeenCalled();
+      expect(mockProvider.sendConfirmationMail).toHaveBeenCalled();
+    });
+  });
+
+  describe('outbox', () => {
+    const mockReq = () => ({
+      body: { email: 'test@example.com', captchaToken: 'captcha-token', mailingLists: ['list-1'], language: 'en' },
+      protocol: 'https',
+      hostname: 'example.com',
+      ip: '192.168.1.1',
+      get: jest.fn((header: string) => header === 'host' ? 'example.com' : undefined),
+    } as any);
+
+    beforeEach(async () => {
+      const store = getStore();
+      for (const key of await store.list('outbox/')) {
+        await store.delete(key);
+      }
+    });
+
+    it('should queue subscription when the mailing provider fails', async () => {
+      (captcha.checkCaptcha as jest.Mock).mockResolvedValue({ valid: true });
+      (mockProvider.upsertContact as jest.Mock).mockRejectedValueOnce(unavailable);
+
+      const result = await subscribe(mockReq());
+
+      expect(result).toEqual({ success: true, doubleOptIn: true, email: 'test@example.com', queued: true });
+      expect(await getStore().list('outbox/')).toHaveLength(1);
+    });
+
+    it('should send the confirmation email when the retry succeeds', async () => {
+      (captcha.checkCaptcha as jest.Mock).mockResolvedValue({ valid: true });
+      (mockProvider.upsertContact as jest.Mock).mockRejectedValueOnce(unavailable);
+      await subscribe(mockReq());
+      (mockProvider.upsertContact as jest.Mock).mockResolvedValue({
+        email: 'test@example.com',
+        subscribed: false,
+        optInStatus: 'pending',
+        mailingLists: { 'list-1': true },
+      });
+      (jwt.createToken as jest.Mock).mockReturnValue('jwt-token');
+      const outbox = await getStore().list('outbox/');
+      const entry = await getStore().get<{ nextAttemptAt: string }>(outbox[0]);
+      await getStore().set(outbox[0], { ...entry, nextAttemptAt: new Date(0).toISOString() });
+
+      expect(await retryQueuedSubscriptions()).toEqual({ delivered: 1, postponed: 0, dropped: 0, deadLettered: 0 });
+
+      expect(mockProvider.upsertContact).toHaveBeenLastCalledWith('test@example.com', { language: 'en' }, ['list-1']);
+      expect(mockProvider.sendConfirmationMail).toHaveBeenCalledWith('test@example.com', new URL('https://example.com/control-panel?token=jwt-token&lang=en'), 'en');
+      expect(await getStore().list('outbox/')).toEqual([]);
+    });
+
+    it('should record consent of a queued subscription with the time of the request when it is delivered', async () => {
+      (captcha.checkCaptcha as jest.Mock).mockResolvedValue({ valid: true });
+      (mockProvider.upsertContact as jest.Mock).mockRejectedValueOnce(unavailable);
+      const requestedAt = new Date();
+      await subscribe({ ...mockReq(), body: { ...mockReq().body, email: 'queued@example.com' } });
+
+      expect(await getConsentRecords('queued@example.com')).toEqual([]);
+
+      (mockProvider.upsertContact as jest.Mock).mockResolvedValueOnce({ email: 'queued@example.com', optInStatus: 'pending', mailingLists: { 'list-1': true } });
+      const [key] = await getStore().list('outbox/');
+      await getStore().set(key, { ...await getStore().get<object>(key), nextAttemptAt: new Date(0).toISOString() });
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      const retriedAt = new Date();
+      await retryQueuedSubscriptions();
+
+      const [record] = await getConsentRecords('queued@example.com');
+      expect(record).toEqual(expect.objectContaining({ action: 'subscribe', mailingLists: { 'list-1': true }, ipHash: expect.any(String) }));
+      expect(new Date(record.timestamp).getTime()).toBeGreaterThanOrEqual(requestedAt.getTime());
+      expect(new Date(record.timestamp).getTime()).toBeLessThan(retriedAt.getTime());
+    });
+
+    it('should not queue subscription failing with a configuration error', async () => {
+      (captcha.checkCaptcha as jest.Mock).mockResolvedValue({ valid: true });
+      (mockProvider.upsertContact as jest.Mock).mockRejectedValueOnce(new Error('Mailing list not found: list-1'));
+
+      await expect(subscribe(mockReq())).rejects.toThrow('Mailing list not found');
+      expect(await getStore().list('outbox/')).toEqual([]);
+    });
+
+    it('should not queue subscription failing with a server error', async () => {
+      (captcha.checkCaptcha as jest.Mock).mockResolvedValue({ valid: true });
+      (mockProvider.upsertContact as jest.Mock).mockResolvedValue({ email: 'test@example.com', optInStatus: 'pending', mailingLists: {} });
+      (jwt.createToken as jest.Mock).mockImplementationOnce(() => {
+        throw new HttpError({ statusCode: 500, message: 'Configuration error', details: 'JWT_SECRET is not set' });
+      });
+
+      await expect(subscribe(mockReq())).rejects.toThrow(expect.objectContaining({ statusCode: 500 }));
+      expect(await getStore().list('outbox/')).toEqual([]);
+    });
+
+    it('should not queue subscription of contact who rejected it', async () => {
+      (captcha.checkCaptcha as jest.Mock).mockResolvedValue({ valid: true });
+      (mockProvider.upsertContact as jest.Mock).mockResolvedValue({ email: 'test@example.com', optInStatus: 'rejected', mailingLists: {} });
+
+      await expect(subscribe(mockReq())).rejects.toThrow(expect.objectContaining({ statusCode: 429 }));
+      expect(await getStore().list('outbox/')).toEqual([]);
+    });
+  });
+
+  describe('repeat subscription', () => {
+    const createMockRequest = (body: Record<string, unknown>) => ({
+      body: { email: 'test@example.com', captchaToken: 'captcha-token', mailingLists: ['list-1'], ...body },
+      protocol: 'https',
+      hostname: 'example.com',
+      ip: '192.168.1.1',
+      acceptsLanguages: () => [],
+      get: () => undefined,
+    } as any);
+
+    beforeEach(() => {
+      (captcha.checkCaptcha as jest.Mock).mockResolvedValue({ valid: true });
+      (jwt.createToken as jest.Mock).mockReturnValue('jwt-token');
+    });
+
+    it('should update properties of existing contact', async () => {
+      (mockProvider.upsertContact as jest.Mock).mockResolvedValue({
+        id: 'contact-123',
+        email: 'test@example.com',
+        subscribed: false,
+        optInStatus: 'pending',
+        mailingLists: { 'list-1': true },
+        language: 'en',
+        referer: 'https://example.com/first',
+      });
+
+      await subscribe(createMockRequest({ firstName: 'Jane', language: 'pl', referer: 'https://example.com/second' }));
+
+      expect(mockProvider.updateContactProperties).toHaveBeenCalledWith('test@example.com', { firstName: 'Jane', language: 'pl' });
+      expect(mockProvider.sendConfirmationMail).toHaveBeenCalledWith('test@example.com', expect.any(URL), 'pl');
+    });
+
+    it('should reject reserved properties before creating contact', async () => {
+      await expect(subscribe(createMockRequest({ subscribed: true }))).rejects.toMatchObject({ statusCode: 400, reason: 'reserved-property' });
+      await expect(subscribe(createMockRequest({ xOptInStatus: 'accepted' }))).rejects.toMatchObject({ statusCode: 400, reason: 'reserved-property' });
+      expect(mockProvider.upsertContact).not.toHaveBeenCalled();
+    });
+
+    it('should drop properties not in the form schema', async () => {
+      (mockProvider.upsertContact as jest.Mock).mockResolvedValue({
+        id: 'contact-123',
+        email: 'test@example.com',
+        subscribed: false,
+        optInStatus: 'pending',
+        mailingLists: {},
+      });
+
+      await subscribe(createMockRequest({ firstName: 'Jane', userGroup: 'vip' }));
+
+      expect(mockProvider.upsertContact).toHaveBeenCalledWith('test@example.com', { firstName: 'Jane' }, ['list-1']);
+    });
+
+    it('should not update contact who rejected subscription', async () => {
+      (mockProvider.upsertContact as jest.Mock).mockResolvedValue({
+        id: 'contact-123',
+        email: 'test@example.com',
+        subscribed: false,
+        optInStatus: 'rejected',
+        mailingLists: {},
+      });
+
+      await expect(subscribe(createMockRequest({ firstName: 'Jane', language: 'pl' }))).rejects.toThrow(HttpError);
+      expect(mockProvider.updateContactProperties).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('mergeProperties', () => {
+    const contact = {
+      id: 'contact-123',
+      email: 'test@example.com',
+      subscribed: true,
+      optInStatus: 'accepted',
+      mailingLists: {},
+      firstName: 'John',
+      lastName: '',
+      language: 'en',
+    } as unknown as Contact;
+
+    it('should apply strategy per property', () => {
+      const changes = mergeProperties(contact, { firstName: 'Jane', lastName: 'Doe', language: 'pl', userGroup: 'vip' }, {
+        default: 'fill-missing',
+        properties: { language: 'overwrite', userGroup: 'ignore' },
+      });
+
+      expect(changes).toEqual({ lastName: 'Doe', language: 'pl' });
+    });
+
+    it('should overwrite by default when configured', () => {
+      const changes = mergeProperties(contact, { firstName: 'Jane', language: 'en' }, { default: 'overwrite', properties: {} });
+
+      expect(changes).toEqual({ firstName: 'Jane' });
+    });
+
+    it('should not erase values nor change subscription properties', () => {
+      const changes = mergeProperties(contact, { firstName: '', subscribed: false, xOptInStatus: 'accepted' }, { default: 'overwrite', properties: {} });
+
+      expect(changes).toEqual({});
+    });
+  });
+
+  describe('exportSubscription', () => {
+    it('should export contact properties, mailing lists and consent history', async () => {
+      await recordConsent('export@example.com', 'subscribe', { 'list-1': true }, { formUrl: 'https://example.com/page' });
+      (mockProvider.findContact as jest.Mock).mockResolvedValue({
+        id: 'contact-123',
+        email: 'export@example.com',
+        subscribed: true,
+        optInStatus: 'accepted',
+        mailingLists: { 'list-1': true },
+        firstName: 'Jane',
+        language: 'en',
+      });
+      (mockProvider.getMailingLists as jest.Mock).mockResolvedValue([
+        { id: 'list-1', name: 'Newsletter', description: 'Main newsletter', isPublic: true },
+        { id: 'list-2', name: 'Updates', description: 'Updates', isPublic: true },
+      ]);
+
+      const result = await exportSubscription('export@example.com');
+
+      expect(result).toEqual({
+        exportedAt: expect.any(String),
+        email: 'export@example.com',
+        subscribed: true,
+        optInStatus: 'accepted',
+        properties: { id: 'contact-123', email: 'export@example.com', subscribed: true, firstName: 'Jane', language: 'en' },
+        mailingLists: [
+          { id: 'list-1', name: 'Newsletter', description: 'Main newsletter', isPublic: true, subscribed: true },
+          { id: 'list-2', name: 'Updates', description: 'Updates', isPublic: true, subscribed: false },
+        ],
+        consent: [expect.objectContaining({ action: 'subscribe', formUrl: 'https://example.com/page' })],
+      });
+    });
+
+    it('should throw 404 when contact is not found', async () => {
+      (mockProvider.findContact as jest.Mock).mockResolvedValue(null);
+
+      await expect(exportSubscription('nonexistent@example.com')).rejects.toMatchObject({ statusCode: 404 });
+    });
+  });
+
+  describe('deleteSubscription', () => {
+    const contact = {
+      id: 'contact-123',
+      email: 'erase@example.com',
+      subscribed: true,
+      optInStatus: 'accepted',
+      mailingLists: { 'list-1': true },
+    };
+    const mockReq = () => ({
+      body: { email: 'erase@example.com', captchaToken: 'captcha-token', mailingLists: ['list-1'], language: 'en' },
+      protocol: 'https',
+      hostname: 'example.com',
+      ip: '192.168.1.1',
+      get: () => undefined,
+    } as any);
+
+    beforeEach(async () => {
+      delete process.env.ERASURE_SUPPRESSION;
+      for (const prefix of ['suppression/', 'outbox/']) {
+        for (const key of await getStore().list(prefix)) {
+          await getStore().delete(key);
+        }
+      }
+      (mockProvider.findContact as jest.Mock).mockResolvedValue(contact);
+      (captcha.checkCaptcha as jest.Mock).mockResolvedValue({ valid: true });
+    });
+
+    afterEach(() => {
+      delete process.env.ERASURE_SUPPRESSION;
+    });
+
+    it('should delete the contact and its consent records', async () => {
+      await recordConsent('erase@example.com', 'subscribe', { 'list-1': true });
+
+      const result = await deleteSubscription('erase@example.com');
+
+      expect(result).toEqual({ success: true, email: 'erase@example.com', suppressed: false });
+      expect(mockProvider.deleteContact).toHaveBeenCalledWith('erase@example.com');
+      expect(await getConsentRecords('erase@example.com')).toEqual([]);
+      expect(await isSuppressed('erase@example.com')).toBe(false);
+    });
+
+    it('should throw 404 when contact is not found', async () => {
+      (mockProvider.findContact as jest.Mock).mockResolvedValue(null);
+
+      await expect(deleteSubscription('nonexistent@example.com')).rejects.toMatchObject({ statusCode: 404 });
+      expect(mockProvider.deleteContact).not.toHaveBeenCalled();
+    });
+
+    it('should reject subscriptions of the deleted address with suppression', async () => {
+      process.env.ERASURE_SUPPRESSION = 'true';
+
+      expect(await deleteSubscription('erase@example.com')).toMatchObject({ suppressed: true });
+
+      await expect(subscribe(mockReq())).rejects.toMatchObject({ statusCode: 429 });
+      expect(mockProvider.upsertContact).not.toHaveBeenCalled();
+      expect(await getConsentRecords('erase@example.com')).toEqual([]);
+    });
+
+    it('should not keep the address in the store', async () => {
+      process.env.ERASURE_SUPPRESSION = 'true';
+
+      await deleteSubscription('erase@example.com');
+
+      expect((await getStore().list('suppression/')).join()).not.toContain('erase');
+    });
+
+    it('should remove queued subscriptions of the deleted address', async () => {
+      (mockProvider.upsertContact as jest.Mock)
+        .mockRejectedValueOnce(unavailable)
+        .mockRejectedValueOnce(unavailable);
+      await subscribe(mockReq());
+      await subscribe({ ...mockReq(), body: { ...mockReq().body, email: 'other@example.com' } });
+
+      await deleteSubscription('Erase@Example.com');
+
+      const outbox = await getStore().list('outbox/');
+      expect(outbox).toHaveLength(1);
+      expect(await getStore().get(outbox[0])).toMatchObject({ payload: { email: 'other@example.com' } });
+    });
+
+    it('should revoke tokens of the address', async () => {
+      await deleteSubscription('erase@example.com');
+
+      expect(jwt.revokeAddressTokens).toHaveBeenCalledWith('erase@example.com');
+    });
+
+    it('should accept subscriptions of the deleted address without suppression', async () => {
+      await deleteSubscription('erase@example.com');
+      (mockProvider.upsertContact as jest.Mock).mockResolvedValue({ ...contact, subscribed: false, optInStatus: 'pending' });
+      (jwt.createToken as jest.Mock).mockReturnValue('jwt-token');
+
+      expect(await subscribe(mockReq())).toMatchObject({ success: true });
     });
   });
 
@@ -155,8 +540,8 @@ describe('subscription', () => {
         referer: 'https://example.com/page',
       };
 
-      (loops.findContact as jest.Mock).mockResolvedValue(mockContact);
-      (loops.getMailingLists as jest.Mock).mockResolvedValue([
+      (mockProvider.findContact as jest.Mock).mockResolvedValue(mockContact);
+      (mockProvider.getMailingLists as jest.Mock).mockResolvedValue([
         { id: 'list-1', name: 'Newsletter', description: 'Main newsletter', isPublic: true },
         { id: 'list-2', name: 'Updates', description: 'Updates', isPublic: true },
       ]);
@@ -173,11 +558,12 @@ describe('subscription', () => {
           { id: 'list-2', name: 'Updates', description: 'Updates', isPublic: true, subscribed: false },
         ],
         referer: 'https://example.com/page',
+        confirmationMode: 'auto',
       });
     });
 
     it('should throw HttpError when contact is not found', async () => {
-      (loops.findContact as jest.Mock).mockResolvedValue(null);
+      (mockProvider.findContact as jest.Mock).mockResolvedValue(null);
 
       await expect(getSubscription('nonexistent@example.com')).rejects.toThrow(HttpError);
       try {
@@ -190,9 +576,210 @@ describe('subscription', () => {
     });
   });
 
+  describe('refreshLink', () => {
+    const mockRequest = { protocol: 'https', hostname: 'example.com' } as any;
+
+    it('should send a new link in the contact language', async () => {
+      (mockProvider.findContact as jest.Mock).mockResolvedValue({
+        id: 'contact-123',
+        email: 'test@example.com',
+        subscribed: true,
+        optInStatus: 'accepted',
+        mailingLists: {},
+        language: 'pl',
+        xTokenGeneration: 3,
+      });
+      (jwt.createToken as jest.Mock).mockReturnValue('new-token');
+
+      const result = await refreshLink('test@example.com', mockRequest);
+
+      expect(result).toEqual({ success: true, email: 'test@example.com' });
+      expect(jwt.createToken).toHaveBeenCalledWith('test@example.com', new URL('https://example.com'), 'manage', 3);
+      expect(mockProvider.sendControlPanelMail).toHaveBeenCalledWith('test@example.com', new URL('https://example.com/control-panel?token=new-token&lang=pl'), 'pl');
+      expect(mockProvider.sendConfirmationMail).not.toHaveBeenCalled();
+    });
+
+    it('should throw HttpError when contact is not found', async () => {
+      (mockProvider.findContact as jest.Mock).mockResolvedValue(null);
+
+      await expect(refreshLink('deleted@example.com', mockRequest)).rejects.toMatchObject({ statusCode: 404 });
+      expect(mockProvider.sendControlPanelMail).not.toHaveBeenCalled();
+    });
+
+    it('should not email contact who rejected subscription', async () => {
+      (mockProvider.findContact as jest.Mock).mockResolvedValue({
+        id: 'contact-123',
+        email: 'test@example.com',
+        subscribed: false,
+        optInStatus: 'rejected',
+        mailingLists: {},
+      });
+
+      await expect(refreshLink('test@example.com', mockRequest)).rejects.toMatchObject({ statusCode: 403, reason: 'subscription-rejected' });
+      expect(mockProvider.sendControlPanelMail).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('revokeLinks', () => {
+    const mockRequest = { protocol: 'https', hostname: 'example.com' } as any;
+    const contact: Contact = {
+      id: 'contact-123',
+      email: 'test@example.com',
+      subscribed: true,
+      optInStatus: 'accepted',
+      mailingLists: {},
+      xTokenGeneration: 1,
+    };
+
+    it('should revoke tokens and send a link of the new generation', async () => {
+      (mockProvider.findContact as jest.Mock).mockResolvedValue(contact);
+      (jwt.revokeTokens as jest.Mock).mockResolvedValue(2);
+      (jwt.createToken as jest.Mock).mockReturnValue('new-token');
+
+      const result = await revokeLinks('test@example.com', mockRequest);
+
+      expect(result).toEqual({ success: true, email: 'test@example.com', linkSent: true });
+      expect(jwt.revokeTokens).toHaveBeenCalledWith(contact);
+      expect(jwt.createToken).toHaveBeenCalledWith('test@example.com', new URL('https://example.com'), 'manage', 2);
+      expect(mockProvider.sendControlPanelMail).toHaveBeenCalled();
+    });
+
+    it('should revoke tokens without sending a link', async () => {
+      (mockProvider.findContact as jest.Mock).mockResolvedValue(contact);
+
+      const result = await revokeLinks('test@example.com', mockRequest, { sendLink: false });
+
+      expect(result).toEqual({ success: true, email: 'test@example.com', linkSent: false });
+      expect(jwt.revokeTokens).toHaveBeenCalledWith(contact);
+      expect(mockProvider.sendControlPanelMail).not.toHaveBeenCalled();
+    });
+
+    it('should throw HttpError when contact is not found', async () => {
+      (mockProvider.findContact as jest.Mock).mockResolvedValue(null);
+
+      await expect(revokeLinks('deleted@example.com', mockRequest)).rejects.toMatchObject({ statusCode: 404 });
+      expect(jwt.revokeTokens).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('list links', () => {
+    const contact: Contact = {
+      id: 'contact-123',
+      email: 'test@example.com',
+      subscribed: true,
+      optInStatus: 'accepted',
+      mailingLists: { news: true },
+      language: 'pl',
+      xTokenGeneration: 2,
+    };
+
+    it('should sign the list and the action in the token', () => {
+      (jwt.createToken as jest.Mock).mockReturnValue('list-token');
+
+      const url = listLinkUrl(contact, new URL('https://example.com'), { list: 'news', action: 'unsubscribe' });
+
+      expect(url.toString()).toBe('https://example.com/control-panel?token=list-token&list=news&action=unsubscribe&lang=pl');
+      expect(jwt.createToken).toHaveBeenCalledWith('test@example.com', new URL('https://example.com'), 'manage', 2, { list: 'news', action: 'unsubscribe' });
+    });
+
+    it('should allow the change of the list', async () => {
+      (mockProvider.findContact as jest.Mock).mockResolvedValue(contact);
+
+      await expect(authorizeListLink({ list: 'news', action: 'unsubscribe' }, {
+        email: 'test@example.com',
+        subscribe: true,
+        mailingLists: { news: false },
+      })).resolves.toBeUndefined();
+    });
+
+    it.each([
+      [{ news: true }],
+      [{ news: false, other: false }],
+      [{ other: false }],
+    ])('should reject other changes %j', async (mailingLists) => {
+      await expect(authorizeListLink({ list: 'news', action: 'unsubscribe' }, {
+        email: 'test@example.com',
+        subscribe: true,
+        mailingLists,
+      })).rejects.toMatchObject({ statusCode: 403, reason: 'list-link' });
+    });
+
+    it('should not subscribe unsubscribed contact again', async () => {
+      (mockProvider.findContact as jest.Mock).mockResolvedValue({ ...contact, subscribed: false, optInStatus: 'rejected' });
+
+      await expect(authorizeListLink({ list: 'news', action: 'unsubscribe' }, {
+        email: 'test@example.com',
+        subscribe: true,
+        mailingLists: { news: false },
+      })).rejects.toMatchObject({ statusCode: 409, reason: 'not-subscribed' });
+    });
+
+    it('should not subscribe to the list a contact unsubscribed from all lists', async () => {
+      (mockProvider.findContact as jest.Mock).mockResolvedValue({ ...contact, subscribed: false, optInStatus: 'rejected', mailingLists: { news: true } });
+
+      await expect(authorizeListLink({ list: 'other', action: 'subscribe' }, {
+        email: 'test@example.com',
+        subscribe: true,
+        mailingLists: { other: true },
+      })).rejects.toMatchObject({ statusCode: 409, reason: 'not-subscribed' });
+      expect(mockProvider.subscribeContact).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('verifyConfirmation', () => {
+    const originalMode = process.env.CONFIRMATION_MODE;
+    const pending = { id: 'contact-123', email: 'test@example.com', subscribed: false, optInStatus: 'pending', mailingLists: {} };
+
+    beforeEach(() => {
+      process.env.CONFIRMATION_MODE = 'captcha';
+      (mockProvider.findContact as jest.Mock).mockResolvedValue(pending);
+    });
+
+    afterEach(() => {
+      // Assigning undefined to process.env would set the string 'undefined'.
+      if (originalMode === undefined) {
+        delete process.env.CONFIRMATION_MODE;
+      } else {
+        process.env.CONFIRMATION_MODE = originalMode;
+      }
+    });
+
+    it('should verify CAPTCHA when confirming pending subscription', async () => {
+      (captcha.checkCaptcha as jest.Mock).mockResolvedValue({ valid: true });
+
+      await verifyConfirmation({ email: 'test@example.com', subscribe: true, captchaToken: 'captcha-token' }, '192.168.1.1');
+
+      expect(captcha.checkCaptcha).toHaveBeenCalledWith('confirm', 'captcha-token', '192.168.1.1');
+    });
+
+    it('should reject confirmation by bots', async () => {
+      (captcha.checkCaptcha as jest.Mock).mockResolvedValue({ valid: false });
+
+      await expect(verifyConfirmation({ email: 'test@example.com', subscribe: true }, '192.168.1.1'))
+        .rejects.toMatchObject({ statusCode: 429, reason: 'captcha-failed' });
+    });
+
+    it('should not check contacts who confirmed before', async () => {
+      (mockProvider.findContact as jest.Mock).mockResolvedValue({ ...pending, subscribed: true, optInStatus: 'accepted' });
+
+      await verifyConfirmation({ email: 'test@example.com', subscribe: true, mailingLists: { 'list-1': true } });
+
+      expect(captcha.checkCaptcha).not.toHaveBeenCalled();
+    });
+
+    it.each(['auto', 'click'])('should not check in %s mode', async (mode) => {
+      process.env.CONFIRMATION_MODE = mode;
+
+      await verifyConfirmation({ email: 'test@example.com', subscribe: true });
+
+      expect(captcha.checkCaptcha).not.toHaveBeenCalled();
+      expect(mockProvider.findContact).not.toHaveBeenCalled();
+    });
+  });
+
   describe('updateSubscription', () => {
     it('should subscribe contact when subscribe is true', async () => {
-      (loops.subscribeContact as jest.Mock).mockResolvedValue(undefined);
+      (mockProvider.subscribeContact as jest.Mock).mockResolvedValue(undefined);
 
       const result = await updateSubscription({
         email: 'test@example.com',
@@ -205,11 +792,11 @@ describe('subscription', () => {
         email: 'test@example.com',
         subscribed: true,
       });
-      expect(loops.subscribeContact).toHaveBeenCalledWith('test@example.com', { 'list-1': true });
+      expect(mockProvider.subscribeContact).toHaveBeenCalledWith('test@example.com', { 'list-1': true });
     });
 
     it('should unsubscribe contact when subscribe is false', async () => {
-      (loops.unsubscribeContact as jest.Mock).mockResolvedValue(undefined);
+      (mockProvider.unsubscribeContact as jest.Mock).mockResolvedValue(undefined);
 
       const result = await updateSubscription({
         email: 'test@example.com',
@@ -221,7 +808,91 @@ describe('subscription', () => {
         email: 'test@example.com',
         subscribed: false,
       });
-      expect(loops.unsubscribeContact).toHaveBeenCalledWith('test@example.com');
+      expect(mockProvider.unsubscribeContact).toHaveBeenCalledWith('test@example.com');
+    });
+
+    describe('webhooks', () => {
+      const originalEnv = process.env;
+      const contact = { email: 'test@example.com', subscribed: true, optInStatus: 'accepted', mailingLists: { 'list-1': true } } as unknown as Contact;
+      const sentEvents = () => (fetch as unknown as jest.Mock).mock.calls.map(([, init]) => JSON.parse(init.body));
+
+      beforeEach(() => {
+        process.env = { ...originalEnv, WEBHOOK_URLS: 'https://crm.example.com/hooks', WEBHOOK_SECRET: 'whsec_c2VjcmV0' };
+        (fetch as unknown as jest.Mock).mockResolvedValue({ ok: true, status: 200 });
+      });
+
+      afterEach(() => {
+        process.env = originalEnv;
+      });
+
+      it('should send confirmation of pending contact', async () => {
+        (mockProvider.findContact as jest.Mock).mockResolvedValue({ ...contact, subscribed: false, optInStatus: 'pending' });
+
+        await updateSubscription({ email: 'test@example.com', subscribe: true, mailingLists: { 'list-2': true } });
+
+        expect(sentEvents()).toEqual([expect.objectContaining({
+          type: 'subscription.confirmed',
+          data: { email: 'test@example.com', subscribed: true, optInStatus: 'accepted', mailingLists: { 'list-1': true, 'list-2': true } },
+        })]);
+      });
+
+      it('should send changed mailing lists', async () => {
+        (mockProvider.findContact as jest.Mock).mockResolvedValue(contact);
+
+        await updateSubscription({ email: 'test@example.com', subscribe: true, mailingLists: { 'list-1': true } });
+        await updateSubscription({ email: 'test@example.com', subscribe: true, mailingLists: { 'list-1': false } });
+
+        expect(sentEvents()).toEqual([expect.objectContaining({
+          type: 'subscription.updated',
+          data: expect.objectContaining({ mailingLists: { 'list-1': false } }),
+        })]);
+      });
+
+      it('should send unsubscribe', async () => {
+        (mockProvider.findContact as jest.Mock).mockResolvedValue(contact);
+
+        await updateSubscription({ email: 'test@example.com', subscribe: false });
+
+        expect(sentEvents()).toEqual([expect.objectContaining({
+          type: 'subscription.unsubscribed',
+          data: expect.objectContaining({ subscribed: false, optInStatus: 'rejected' }),
+        })]);
+      });
+
+      it('should send deletion without contact data', async () => {
+        (mockProvider.findContact as jest.Mock).mockResolvedValue({ ...contact, firstName: 'Jane' });
+
+        await deleteSubscription('test@example.com');
+
+        expect(sentEvents()).toEqual([expect.objectContaining({
+          type: 'subscription.deleted',
+          data: { email: 'test@example.com', subscribed: false, optInStatus: null, mailingLists: {} },
+        })]);
+      });
+
+      it('should record confirmation with the request details', async () => {
+        (mockProvider.findContact as jest.Mock).mockResolvedValue({ ...contact, email: 'confirm@example.com', subscribed: false, optInStatus: 'pending', language: 'pl' });
+
+        await updateSubscription({ email: 'confirm@example.com', subscribe: true }, { ip: '192.0.2.1', formUrl: 'https://example.com/control-panel', captchaScore: 0.7 });
+
+        expect(await getConsentRecords('confirm@example.com')).toEqual([expect.objectContaining({
+          action: 'confirm',
+          formUrl: 'https://example.com/control-panel',
+          language: 'pl',
+          captchaScore: 0.7,
+          mailingLists: { 'list-1': true },
+        })]);
+      });
+
+      it('should not look up the contact without endpoints and consent ledger', async () => {
+        delete process.env.WEBHOOK_URLS;
+        process.env.CONSENT_LEDGER = 'none';
+
+        await updateSubscription({ email: 'test@example.com', subscribe: false });
+
+        expect(mockProvider.findContact).not.toHaveBeenCalled();
+        expect(fetch).not.toHaveBeenCalled();
+      });
     });
   });
 });
@@ -0,0 +1,113 @@
+jest.mock('node-fetch', () => jest.fn());
+
+import request from 'supertest';
+import type { Express } from 'express';
+import type { MailingProvider } from '../provider';
+import type * as Unsubscribe from '../unsubscribe';
+
+describe('one-click unsubscribe', () => {
+  const originalEnv = process.env;
+  const rootUrl = new URL('http://127.0.0.1');
+  let app: Express;
+  let provider: MailingProvider;
+  let unsubscribe: typeof Unsubscribe;
+
+  beforeAll(async () => {
+    process.env = { ...originalEnv, MAILING_PROVIDER: 'memory', NUMBER_OF_PROXIES: '0', ADMIN_SECRET: 'admin-secret' };
+    app = (await import('../api')).app;
+    provider = (await import('../provider')).getProvider();
+    unsubscribe = await import('../unsubscribe');
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  beforeEach(async () => {
+    await provider.upsertContact('reader@example.com', {});
+    await provider.subscribeContact('reader@example.com');
+  });
+
+  const unsubscribePath = async () => {
+    const contact = (await provider.findContact('reader@example.com'))!;
+    const url = unsubscribe.unsubscribeUrl(contact, rootUrl);
+    return url.pathname + url.search;
+  };
+
+  describe('listUnsubscribeHeaders', () => {
+    it('should point to the one-click endpoint', async () => {
+      const contact = (await provider.findContact('reader@example.com'))!;
+
+      const headers = unsubscribe.listUnsubscribeHeaders(contact, rootUrl);
+
+      expect(headers['List-Unsubscribe']).toMatch(/^<http:\/\/127\.0\.0\.1\/api\/unsubscribe\?token=[^>]+>$/);
+      expect(headers['List-Unsubscribe-Post']).toBe('List-Unsubscribe=One-Click');
+    });
+  });
+
+  describe('POST /api/unsubscribe', () => {
+    it('should unsubscribe the token owner', async () => {
+      const response = await request(app)
+        .post(await unsubscribePath())
+        .type('form')
+        .send('List-Unsubscribe=One-Click')
+        .expect(200);
+
+      expect(response.body).toEqual({ success: true, email: 'reader@example.com', subscribed: false });
+      expect(await provider.findContact('reader@example.com')).toEqual(expect.objectContaining({ subscribed: false, optInStatus: 'rejected' }));
+    });
+
+    it('should not send CORS headers', async () => {
+      const response = await request(app)
+        .post(await unsubscribePath())
+        .set('Origin', 'http://localhost:3000')
+        .type('form')
+        .send('List-Unsubscribe=One-Click')
+        .expect(200);
+
+      expect(response.headers['access-control-allow-origin']).toBeUndefined();
+    });
+
+    it('should reject invalid token', async () => {
+      const response = await request(app)
+        .post('/api/unsubscribe?token=forged')
+        .type('form')
+        .send('List-Unsubscribe=One-Click')
+        .expect(401);
+
+      expect(response.body.reason).toBe('invalid-token');
+      expect(await provider.findContact('reader@example.com')).toEqual(expect.objectContaining({ subscribed: true }));
+    });
+  });
+
+  describe('GET /api/unsubscribe', () => {
+    it('should open the control panel without unsubscribing', async () => {
+      const path = await unsubscribePath();
+
+      const response = await request(app).get(path).expect(303);
+
+      expect(response.headers.location).toBe(`http://127.0.0.1/control-panel${new URL(path, rootUrl).search}`);
+      expect(await provider.findContact('reader@example.com')).toEqual(expect.objectContaining({ subscribed: true }));
+    });
+
+    it('should reject the link without token', async () => {
+      const response = await request(app).get('/api/unsubscribe').expect(401);
+
+      expect(response.body.reason).toBe('missing-token');
+    });
+  });
+
+  describe('GET /api/admin/contacts/:email/list-unsubscribe', () => {
+    it('should return header values for the contact', async () => {
+      const response = await request(app)
+        .get('/api/admin/contacts/reader%40example.com/list-unsubscribe')
+        .set('Authorization', 'Bearer admin-secret')
+        .expect(200);
+
+      expect(response.body).toEqual({
+        'List-Unsubscribe': expect.stringMatching(/^<http:\/\/127\.0\.0\.1\/api\/unsubscribe\?token=/),
+        'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+      });
+    });
+  });
+});
@@ -0,0 +1,114 @@
+jest.mock('node-fetch', () => jest.fn());
+
+import fetch from 'node-fetch';
+import type { Contact } from '../provider';
+import { verifyWebhookSignature } from '../loops-webhook';
+import { getStore } from '../store';
+import { emitEvent, retryQueuedWebhooks, WebhookEvent } from '../webhooks';
+
+const mockFetch = fetch as unknown as jest.Mock;
+
+describe('webhooks', () => {
+  const originalEnv = process.env;
+  const secret = 'whsec_' + Buffer.from('outgoing-webhook-test-secret').toString('base64');
+  const contact = {
+    email: 'reader@example.com',
+    subscribed: true,
+    optInStatus: 'accepted',
+    mailingLists: { newsletter: true },
+  } as unknown as Contact;
+
+  const requests = () => mockFetch.mock.calls.map(([url, init]) => ({
+    url,
+    headers: init.headers as Record<string, string>,
+    body: init.body as string,
+    event: JSON.parse(init.body) as WebhookEvent,
+  }));
+
+  beforeEach(async () => {
+    process.env = { ...originalEnv, WEBHOOK_URLS: 'https://crm.example.com/hooks https://chat.example.com/hooks', WEBHOOK_SECRET: secret };
+    mockFetch.mockResolvedValue({ ok: true, status: 204 });
+    for (const key of await getStore().list('webhook-outbox/')) {
+      await getStore().delete(key);
+    }
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    jest.clearAllMocks();
+  });
+
+  it('should send signed events to every endpoint', async () => {
+    await emitEvent('subscription.confirmed', contact);
+
+    const sent = requests();
+    expect(sent.map(({ url }) => url)).toEqual(['https://crm.example.com/hooks', 'https://chat.example.com/hooks']);
+    expect(sent[0].event).toEqual({
+      type: 'subscription.confirmed',
+      timestamp: expect.any(String),
+      data: { email: 'reader@example.com', subscribed: true, optInStatus: 'accepted', mailingLists: { newsletter: true } },
+    });
+    expect(sent[0].headers['webhook-id']).toBe(sent[1].headers['webhook-id']);
+    expect(() => verifyWebhookSignature(secret, sent[0].headers, Buffer.from(sent[0].body))).not.toThrow();
+  });
+
+  it('should send nothing without endpoints', async () => {
+    delete process.env.WEBHOOK_URLS;
+
+    await emitEvent('subscription.confirmed', contact);
+
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it('should send only selected events', async () => {
+    process.env.WEBHOOK_EVENTS = 'subscription.unsubscribed';
+
+    await emitEvent('subscription.confirmed', contact);
+    await emitEvent('subscription.unsubscribed', { ...contact, subscribed: false, optInStatus: 'rejected' });
+
+    expect(requests().map(({ event }) => event.type)).toEqual(['subscription.unsubscribed', 'subscription.unsubscribed']);
+  });
+
+  it('should queue failed deliveries and retry them with the same ID', async () => {
+    process.env.WEBHOOK_URLS = 'https://crm.example.com/hooks';
+    mockFetch.mockResolvedValueOnce({ ok: false, status: 503 });
+
+    await emitEvent('subscription.requested', contact);
+
+    const outbox = await getStore().list('webhook-outbox/');
+    expect(outbox).toHaveLength(1);
+    const entry = await getStore().get<{ nextAttemptAt: string }>(outbox[0]);
+    await getStore().set(outbox[0], { ...entry, nextAttemptAt: new Date(0).toISOString() });
+
+    expect(await retryQueuedWebhooks()).toEqual({ delivered: 1, postponed: 0, dropped: 0, deadLettered: 0 });
+
+    const [first, retried] = requests();
+    expect(retried.headers['webhook-id']).toBe(first.headers['webhook-id']);
+    expect(() => verifyWebhookSignature(secret, retried.headers, Buffer.from(retried.body))).not.toThrow();
+    expect(await getStore().list('webhook-outbox/')).toEqual([]);
+  });
+
+  it('should queue deliveries failing with a network error', async () => {
+    process.env.WEBHOOK_URLS = 'https://crm.example.com/hooks';
+    mockFetch.mockRejectedValueOnce(new TypeError('fetch failed'));
+
+    await expect(emitEvent('subscription.requested', contact)).resolves.toBeUndefined();
+
+    expect(await getStore().list('webhook-outbox/')).toHaveLength(1);
+  });
+
+  it('should not queue deliveries rejected by the endpoint', async () => {
+    process.env.WEBHOOK_URLS = 'https://crm.example.com/hooks';
+    mockFetch.mockResolvedValueOnce({ ok: false, status: 410 });
+
+    await emitEvent('subscription.requested', contact);
+
+    expect(await getStore().list('webhook-outbox/')).toEqual([]);
+  });
+
+  it('should require the secret', async () => {
+    delete process.env.WEBHOOK_SECRET;
+
+    await expect(emitEvent('subscription.requested', contact)).rejects.toThrow('WEBHOOK_SECRET is not set');
+  });
+});
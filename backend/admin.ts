@@ -0,0 +1,37 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import { Request } from 'express';
+import { loadAdminSecret } from './config';
+import { HttpError } from './error';
+
+/**
+ * Authorize admin request with the `Authorization: Bearer <ADMIN_SECRET>` header.
+ *
+ * Throws 403 Forbidden when admin endpoints are disabled (no ADMIN_SECRET)
+ * and 401 Unauthorized when the secret does not match.
+ */
+export function authenticateAdmin(req: Request): void {
+  const secret = loadAdminSecret();
+  if (secret === undefined) {
+    throw new HttpError({
+      statusCode: 403,
+      reason: 'admin-disabled',
+      message: 'Forbidden',
+      details: 'ADMIN_SECRET not defined',
+    });
+  }
+
+  const token = req.headers.authorization?.match(/Bearer ([^ ]+)/);
+  if (!token)
+    throw new HttpError({statusCode: 401, reason: 'missing-token', message: 'Unauthorized'});
+
+  // Compare digests, so the comparison takes the same time whatever the secret length.
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  if (!timingSafeEqual(digest(token[1]), digest(secret))) {
+    throw new HttpError({
+      statusCode: 401,
+      reason: 'invalid-token',
+      message: 'Unauthorized',
+      details: 'Admin secret does not match',
+    });
+  }
+}
@@ -4,11 +4,22 @@ import cors from "cors";
 import { middleware as errorMiddleware, HttpError } from "./error";
 import { middleware as openApiValidator } from "express-openapi-validator";
 import { openApiSpec } from "./openapi-spec";
-import { authenticate } from "./jwt";
-import { subscribe, getSubscription, updateSubscription } from "./subscription"
+import { authenticate, authenticateToken, checkTokenUnused, consumeToken, createSession, createToken, releaseToken, TOKEN_SCOPES } from "./jwt";
+import { subscribe, getSubscription, exportSubscription, deleteSubscription, updateSubscription, refreshLink, revokeLinks, getRootUrl, authorizeListLink, listLinkUrl, verifyConfirmation } from "./subscription"
 import type { SubscribeRequest, UpdateSubscriptionRequest } from "./subscription";
-import { getMailingLists } from "./loops";
+import type { ListLink, TokenClaims } from "./jwt";
+import { getProvider } from "./provider";
 import { configuration as captchaConfiguration } from "./captcha";
+import { mailbox } from "./mailbox";
+import { authenticateAdmin } from "./admin";
+import { getCache } from "./cache";
+import { runDoctor } from "./doctor";
+import { withFormProperties } from "./form";
+import { listUnsubscribeHeaders, oneClickUnsubscribe } from "./unsubscribe";
+import { receiveLoopsWebhook } from "./loops-webhook";
+import { getConsentRecords } from "./consent";
+import type { ConsentContext } from "./consent";
+import { loadConfiguration } from "./config";
 import rateLimit from "express-rate-limit";
 import ms from "ms";
 
@@ -90,18 +101,31 @@ function parseCorsOrigin(value?: string): string[] | boolean {
 const corsMiddleware = cors({
   origin: parseCorsOrigin(process.env.CORS_ORIGIN),
   credentials: true,
-  methods: ['GET', 'POST', 'PUT', 'OPTIONS'],
+  methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
   allowedHeaders: ['Content-Type', 'Authorization', 'Accept'],
   exposedHeaders: ['Content-Type'],
 });
 
 const apiSpecValidator = openApiValidator({
-  apiSpec: openApiSpec,
+  apiSpec: loadApiSpec(),
   validateRequests: true,
   validateResponses: false, // Set to true in development for response validation
   validateSecurity: false, // We handle JWT validation manually in authenticate()
 });
 
+/**
+ * SubscribeRequest accepts contact properties from the form schema (FORM_PROPERTIES).
+ * An invalid configuration falls back to the plain spec, so the API starts and `carajillo doctor` can report it.
+ */
+function loadApiSpec() {
+  try {
+    return withFormProperties(openApiSpec, loadConfiguration().form);
+  } catch (error) {
+    console.error(`Invalid configuration: ${(error as Error).message}`);
+    return openApiSpec;
+  }
+}
+
 const router = Router();
 
 const subscribeRateLimiter = rateLimit({
@@ -114,6 +138,38 @@ const authenticateRateLimiter = rateLimit({
   windowMs: ms('30 minutes'),
   legacyHeaders: false,
 });
+// Fresh links are emailed at most a few times per address.
+const refreshRateLimiter = rateLimit({
+  limit: 3,
+  windowMs: ms('1 hour'),
+  legacyHeaders: false,
+  keyGenerator: (req, res) => res.locals.email,
+});
+const adminRateLimiter = rateLimit({
+  limit: 20,
+  windowMs: ms('5 minutes'),
+  legacyHeaders: false,
+});
+
+/**
+ * Authenticate the subscriber for account actions: export, revoking links, deletion.
+ * Throws 401 Unauthorized for used confirmation links, which stay in the mailbox until they expire,
+ * and 403 Forbidden for mailing list links, which end up in forwarded campaign emails;
+ * they can only change their list and unsubscribe.
+ */
+async function authenticateSubscriber(req: express.Request): Promise<TokenClaims> {
+  const token = await authenticateToken(req, {scopes: ['confirm', 'manage']});
+  await checkTokenUnused(token);
+  if (token.listLink !== undefined) {
+    throw new HttpError({
+      statusCode: 403,
+      reason: 'list-link',
+      message: "Forbidden",
+      details: "Mailing list link cannot be used for this action."
+    });
+  }
+  return token;
+}
 
 router.get("/company", async (req, res) => {
   res.json({
@@ -128,21 +184,95 @@ router.post("/subscription", subscribeRateLimiter, async (req, res) => {
   res.json(response);
 });
 router.get("/subscription", authenticateRateLimiter, async (req, res) => {
-  const email = authenticate(req);
+  const email = await authenticate(req);
   const response = await getSubscription(email);
   res.json(response);
 });
+// Everything known about the token subject as a JSON file (GDPR right of access).
+router.get("/subscription/export", authenticateRateLimiter, async (req, res) => {
+  const {email} = await authenticateSubscriber(req);
+  const response = await exportSubscription(email);
+  res.attachment('subscription-data.json');
+  res.json(response);
+});
 router.put("/subscription", authenticateRateLimiter, async (req, res) => {
-  const email = authenticate(req);
   const request = req.body as UpdateSubscriptionRequest;
-  if (request.email !== email) {
+  // Unsubscribe links can only unsubscribe.
+  const unsubscribeOnly = !request.subscribe && request.mailingLists === undefined;
+  const token = await authenticateToken(req, {scopes: unsubscribeOnly ? TOKEN_SCOPES : ['confirm', 'manage']});
+  if (request.email !== token.email) {
     throw new HttpError({
       statusCode: 403,
       message: "Forbidden",
       details: "Email address from request does not match JWT."
     });
   }
-  const response = await updateSubscription(request);
+  const context: ConsentContext = {ip: req.ip, formUrl: new URL('/control-panel', getRootUrl(req)).href};
+  if (unsubscribeOnly) {
+    res.json(await updateSubscription(request, context));
+    return;
+  }
+  if (token.listLink !== undefined) {
+    await authorizeListLink(token.listLink, request);
+  }
+  // Link scanners must not confirm subscriptions.
+  const captcha = await verifyConfirmation(request, req.ip);
+  // Confirmation link confirms once; the control panel continues with a management token.
+  await consumeToken(token);
+  let response;
+  try {
+    response = await updateSubscription(request, {...context, captchaScore: captcha?.score});
+  } catch (error) {
+    // The link stays usable when the mailing provider fails, so the subscriber can try again.
+    await releaseToken(token);
+    throw error;
+  }
+  if (token.scope === 'confirm') {
+    const manage = token.session
+      ? createSession({email: token.email, scope: 'manage', generation: token.generation}, getRootUrl(req)).token
+      : createToken(token.email, getRootUrl(req), 'manage', token.generation);
+    res.json({...response, token: manage});
+  } else {
+    res.json(response);
+  }
+});
+// Delete the token subject with all its data (GDPR right to erasure).
+router.delete("/subscription", authenticateRateLimiter, async (req, res) => {
+  const {email} = await authenticateSubscriber(req);
+  res.json(await deleteSubscription(email));
+});
+
+// Exchange the link token for a short-lived session, so the link does not stay in the address bar.
+router.post("/session", authenticateRateLimiter, async (req, res) => {
+  const token = await authenticateToken(req);
+  await checkTokenUnused(token);
+  if (token.session) {
+    throw new HttpError({
+      statusCode: 403,
+      reason: 'session-token',
+      message: "Forbidden",
+      details: "Sessions cannot be extended; open the link from the email again."
+    });
+  }
+  const session = createSession(token, getRootUrl(req));
+  res.json({success: true, token: session.token, expiresAt: session.expiresAt.toISOString()});
+});
+
+// Email a new control panel link to the owner of an expired token.
+router.post("/subscription/refresh", authenticateRateLimiter, async (req, res, next) => {
+  res.locals.email = await authenticate(req, {ignoreExpiration: true});
+  next();
+}, refreshRateLimiter, async (req, res) => {
+  const response = await refreshLink(res.locals.email, req);
+  res.json(response);
+});
+
+// Revoke all links sent to the contact ("sign out everywhere") and email a new one.
+router.post("/subscription/revoke", authenticateRateLimiter, async (req, res, next) => {
+  res.locals.email = (await authenticateSubscriber(req)).email;
+  next();
+}, refreshRateLimiter, async (req, res) => {
+  const response = await revokeLinks(res.locals.email, req);
   res.json(response);
 });
 
@@ -154,10 +284,61 @@ router.get("/captcha", async (req, res) => {
 });
 
 router.get("/lists", async (req, res) => {
-  const response = await getMailingLists();
+  const response = await getProvider().getMailingLists();
+  res.json(response);
+});
+
+// Verify the mailing provider account setup and the configuration.
+// Used by `carajillo doctor`.
+router.get("/admin/doctor", adminRateLimiter, async (req, res) => {
+  authenticateAdmin(req);
+  const response = await runDoctor();
+  res.json(response);
+});
+
+// Forget cached mailing lists and confirmation emails after changing them in Loops.
+router.delete("/admin/cache", adminRateLimiter, async (req, res) => {
+  authenticateAdmin(req);
+  const purged = await getCache().purge();
+  // The in-memory cache of other instances is not purged; the CLI warns about it.
+  res.json({success: true, purged, cache: loadConfiguration().cache.provider});
+});
+
+// Revoke all links sent to the contact, e.g. after a forwarded email leaked.
+router.post("/admin/contacts/:email/revoke", adminRateLimiter, async (req, res) => {
+  authenticateAdmin(req);
+  const response = await revokeLinks(req.params.email, req, {sendLink: false});
   res.json(response);
 });
 
+// Consent records of the contact, e.g. to answer a GDPR request.
+router.get("/admin/contacts/:email/consent", adminRateLimiter, async (req, res) => {
+  authenticateAdmin(req);
+  const records = await getConsentRecords(req.params.email);
+  res.json({success: true, email: req.params.email, records});
+});
+
+// List-Unsubscribe header values for campaign emails sent outside Carajillo.
+router.get("/admin/contacts/:email/list-unsubscribe", adminRateLimiter, async (req, res) => {
+  authenticateAdmin(req);
+  const contact = await getProvider().findContact(req.params.email);
+  if (contact === null) {
+    throw new HttpError({statusCode: 404, message: "Contact not found"});
+  }
+  res.json(listUnsubscribeHeaders(contact, getRootUrl(req)));
+});
+
+// Control panel link changing one mailing list, for campaign emails sent to the list.
+router.get("/admin/contacts/:email/list-link", adminRateLimiter, async (req, res) => {
+  authenticateAdmin(req);
+  const contact = await getProvider().findContact(req.params.email);
+  if (contact === null) {
+    throw new HttpError({statusCode: 404, message: "Contact not found"});
+  }
+  const listLink: ListLink = {list: String(req.query.list), action: req.query.action as ListLink['action']};
+  res.json({success: true, email: contact.email, url: listLinkUrl(contact, getRootUrl(req), listLink).href});
+});
+
 if (process.env.NODE_ENV === "development") {
   router.get("/test/ip", async (req: express.Request, res: express.Response) => {
     res.json({
@@ -190,8 +371,18 @@ if (process.env.NODE_ENV === "development") {
       resetTime: info?.resetTime?.toISOString(),
     });
   });
+
+  // Confirmation emails recorded instead of being sent (env:DEV_MAILBOX).
+  // Browse them at /mailbox.
+  router.get("/test/mailbox", async (req, res) => {
+    res.json(mailbox.list());
+  });
+  router.delete("/test/mailbox", async (req, res) => {
+    mailbox.clear();
+    res.json({ success: true });
+  });
 } else {
-  router.get("/test/:endpoint", async (req, res) => {
+  router.all("/test/:endpoint", async (req, res) => {
     throw new HttpError({
       statusCode: 403,
       message: "Forbidden",
@@ -205,4 +396,43 @@ router.post("/honeypot", async (req, res) => {
   res.json({ success: true });
 });
 
+// RFC 8058 one-click unsubscribe from the List-Unsubscribe header.
+// Mail clients POST a form without JSON and without CORS; the token is in the URL.
+const unsubscribeRouter = Router();
+unsubscribeRouter.post("/", authenticateRateLimiter, async (req, res) => {
+  // The endpoint without the token stands for the form in the consent ledger.
+  const context: ConsentContext = {ip: req.ip, formUrl: new URL('/api/unsubscribe', getRootUrl(req)).href};
+  const response = await oneClickUnsubscribe(queryToken(req), req.hostname, context);
+  res.json(response);
+});
+// Clients without one-click support open the link in a browser;
+// it must not unsubscribe on GET, which link scanners follow too.
+unsubscribeRouter.get("/", async (req, res) => {
+  const params = new URLSearchParams({token: queryToken(req)});
+  res.redirect(303, new URL(`/control-panel?${params}`, getRootUrl(req)).toString());
+});
+
+/**
+ * Token of the unsubscribe link, in the query as mail clients post the link as is.
+ * Throws 401 Unauthorized when it is missing.
+ */
+function queryToken(req: express.Request): string {
+  if (typeof req.query.token !== 'string' || req.query.token === '') {
+    throw new HttpError({statusCode: 401, reason: 'missing-token', message: 'Unauthorized'});
+  }
+  return req.query.token;
+}
+
+// Loops webhook syncing unsubscribes, bounces and mailing list changes made in Loops.
+// The signature covers the raw body, so it is not parsed nor validated before;
+// Loops calls it server to server, without CORS.
+const loopsWebhookRouter = Router();
+loopsWebhookRouter.post("/", async (req, res) => {
+  const body = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+  const response = await receiveLoopsWebhook(req.headers, body);
+  res.json(response);
+});
+
+app.use("/api/unsubscribe", express.urlencoded({extended: false}), apiSpecValidator, unsubscribeRouter, errorMiddleware);
+app.use("/api/webhooks/loops", express.raw({type: () => true}), loopsWebhookRouter, errorMiddleware);
 app.use("/api/", corsMiddleware, express.json(), apiSpecValidator, router, errorMiddleware);
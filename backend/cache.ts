@@ -0,0 +1,104 @@
+import { loadConfiguration } from './config';
+import type { CacheConfiguration } from './config';
+import { getStore, MemoryStore } from './store';
+import type { KeyValueStore } from './store';
+
+/**
+ * Cached value with the time it was loaded.
+ */
+export interface CacheEntry<T> {
+  value: T;
+  /** ISO 8601 */
+  storedAt: string;
+}
+
+const PREFIX = 'cache/';
+
+/**
+ * TTL cache with stale-while-revalidate for slow lookups of the mailing provider.
+ *
+ * A fresh value is returned as is. A stale one is returned too,
+ * while it is loaded again in the background; later requests get the new value.
+ * Values older than both periods are loaded before returning.
+ * Concurrent loads of the same key within the instance are merged.
+ */
+export class Cache {
+  private readonly loading = new Map<string, Promise<unknown>>();
+
+  constructor(
+    private readonly store: KeyValueStore,
+    private readonly config: Pick<CacheConfiguration, 'ttl' | 'staleWhileRevalidate'>,
+    private readonly now: () => number = Date.now,
+  ) {}
+
+  /**
+   * @param key   Name of the lookup
+   * @param load  Loads the value when it is missing or stale
+   */
+  async get<T>(key: string, load: () => Promise<T>): Promise<T> {
+    const entry = await this.store.get<CacheEntry<T>>(PREFIX + key);
+    if (entry !== undefined) {
+      const age = this.now() - new Date(entry.storedAt).getTime();
+      if (age < this.config.ttl) {
+        return entry.value;
+      }
+      if (age < this.config.ttl + this.config.staleWhileRevalidate) {
+        this.load(key, load).catch((error) => console.warn(`cache: revalidating ${key} failed`, error));
+        return entry.value;
+      }
+    }
+    return await this.load(key, load);
+  }
+
+  /**
+   * Remove all cached values, e.g. after mailing lists changed.
+   * @returns number of removed values
+   */
+  async purge(): Promise<number> {
+    const keys = await this.store.list(PREFIX);
+    for (const key of keys) {
+      await this.store.delete(key);
+    }
+    return keys.length;
+  }
+
+  private load<T>(key: string, load: () => Promise<T>): Promise<T> {
+    let pending = this.loading.get(key) as Promise<T> | undefined;
+    if (pending === undefined) {
+      pending = (async () => {
+        try {
+          const value = await load();
+          await this.store.set<CacheEntry<T>>(PREFIX + key, {value, storedAt: new Date(this.now()).toISOString()});
+          return value;
+        } finally {
+          this.loading.delete(key);
+        }
+      })();
+      this.loading.set(key, pending);
+    }
+    return pending;
+  }
+}
+
+let cache: Cache | null = null;
+
+/**
+ * Get the cache selected by the configuration (env:CACHE).
+ */
+export function getCache(): Cache {
+  if (cache === null) {
+    cache = createCache(loadConfiguration().cache);
+  }
+  return cache;
+}
+
+export function createCache(config: CacheConfiguration): Cache {
+  switch (config.provider) {
+    case 'memory':
+      return new Cache(new MemoryStore(), config);
+    case 'store':
+      return new Cache(getStore(), config);
+    default:
+      throw new Error(`unsupported cache: ${config.provider}`);
+  }
+}
@@ -25,15 +25,32 @@ export function configuration(): CaptchaConfigurationSuccess {
 }
 
 
+/**
+ * Outcome of the CAPTCHA check.
+ */
+export interface CaptchaVerification {
+  /** Whether the requestor passed the test */
+  valid: boolean;
+  /** Score reported by the provider, if any; kept as proof of consent */
+  score?: number;
+}
+
 export async function verifyCaptcha(action: string, token?: string, remoteIp?: string): Promise<boolean> {
+  return (await checkCaptcha(action, token, remoteIp)).valid;
+}
+
+/**
+ * Verify the CAPTCHA token like verifyCaptcha, keeping the provider score.
+ */
+export async function checkCaptcha(action: string, token?: string, remoteIp?: string): Promise<CaptchaVerification> {
   const config = loadConfiguration().captcha;
   switch (config.provider) {
     case 'recaptcha':
     case 'hcaptcha':
       const verifier = new CaptchaVerifier(config);
-      return await verifier.verify(action, token, remoteIp);
+      return await verifier.check(action, token, remoteIp);
     case 'none':
-      return true;
+      return {valid: true};
     default:
       throw new Error(`unsupported CAPTCHA provider: ${config.provider}`);
   }
@@ -130,6 +147,13 @@ export class CaptchaVerifier {
    * @returns true if user passed the test (score >= CAPTCHA_THRESHOLD)
    */
   async verify(action: string, token?: string, remoteIp?: string): Promise<boolean> {
+    return (await this.check(action, token, remoteIp)).valid;
+  }
+
+  /**
+   * Same as verify, with the score reported by the provider.
+   */
+  async check(action: string, token?: string, remoteIp?: string): Promise<CaptchaVerification> {
     if (!token) {
       throw new HttpError({
         statusCode: 400,
@@ -156,10 +180,10 @@ export class CaptchaVerifier {
   
     if (captcha.score !== undefined && captcha.score < this.configuration.threshold) {
       console.warn(`CAPTCHA score below threshold ${captcha.score}`);
-      return false;
+      return {valid: false, score: captcha.score};
     }
   
-    return true;
+    return {valid: true, score: captcha.score};
   }
   
   /**
@@ -0,0 +1,162 @@
+import { createHash, createHmac, randomUUID } from 'crypto';
+import { loadConfiguration } from './config';
+import type { ConsentConfiguration } from './config';
+import type { MailingLists } from './provider';
+import { getStore } from './store';
+import type { KeyValueStore } from './store';
+
+/**
+ * What the contact did:
+ * 'subscribe' - submitted a subscription form, 'confirm' - confirmed the pending subscription,
+ * 'update' - changed mailing lists, 'unsubscribe' - withdrew the consent.
+ */
+export type ConsentAction = 'subscribe' | 'confirm' | 'update' | 'unsubscribe';
+
+/**
+ * Proof of consent: when, from where and how the contact consented.
+ */
+export interface ConsentRecord {
+  email: string;
+  action: ConsentAction;
+  /** ISO 8601 */
+  timestamp: string;
+  /** HMAC-SHA256 of the IP address with CONSENT_IP_SALT, hex */
+  ipHash?: string;
+  /** Page with the subscription form or the control panel */
+  formUrl?: string;
+  language?: string;
+  /** Score of the CAPTCHA passed with the request, if the provider reports one */
+  captchaScore?: number;
+  /** Mailing lists of the contact after the change */
+  mailingLists: MailingLists;
+  /** Privacy policy and consent text shown with the form (env:CONSENT_POLICY_VERSION, CONSENT_POLICY_TEXT) */
+  policy: {
+    version?: string;
+    text?: string;
+  };
+}
+
+/**
+ * Request details recorded with the consent; unknown ones are left out.
+ */
+export interface ConsentContext {
+  ip?: string;
+  formUrl?: string;
+  language?: string;
+  captchaScore?: number;
+  /** ISO 8601; time of the request when it is recorded later, e.g. from the outbox. Default: now */
+  timestamp?: string;
+}
+
+/**
+ * Append-only log of consent records.
+ */
+export interface ConsentLedger {
+  append(record: ConsentRecord): Promise<void>;
+  /**
+   * @returns records of the contact, oldest first
+   */
+  list(email: string): Promise<ConsentRecord[]>;
+  /**
+   * Delete all records of the contact, when the contact deletes its data.
+   */
+  erase(email: string): Promise<void>;
+}
+
+const PREFIX = 'consent/';
+
+/**
+ * Consent ledger in the key-value store.
+ *
+ * Every record gets a new key under the hash of the email address, so records are never overwritten
+ * and store keys do not reveal the addresses.
+ */
+export class StoreConsentLedger implements ConsentLedger {
+  constructor(private readonly store: KeyValueStore) {}
+
+  async append(record: ConsentRecord): Promise<void> {
+    // Timestamp first, so keys sort by time.
+    await this.store.set<ConsentRecord>(`${contactPrefix(record.email)}${record.timestamp}/${randomUUID()}`, record);
+  }
+
+  async list(email: string): Promise<ConsentRecord[]> {
+    const keys = (await this.store.list(contactPrefix(email))).sort();
+    const records: ConsentRecord[] = [];
+    for (const key of keys) {
+      const record = await this.store.get<ConsentRecord>(key);
+      if (record !== undefined) {
+        records.push(record);
+      }
+    }
+    return records;
+  }
+
+  async erase(email: string): Promise<void> {
+    for (const key of await this.store.list(contactPrefix(email))) {
+      await this.store.delete(key);
+    }
+  }
+}
+
+/**
+ * Get the consent ledger selected by the configuration (env:CONSENT_LEDGER);
+ * null when consent is not recorded.
+ */
+export function getConsentLedger(config: ConsentConfiguration = loadConfiguration().consent): ConsentLedger | null {
+  switch (config.provider) {
+    case 'store':
+      return new StoreConsentLedger(getStore());
+    case 'none':
+      return null;
+    default:
+      throw new Error(`unsupported consent ledger: ${config.provider}`);
+  }
+}
+
+/**
+ * Append the consent record of the contact, with the policy from the configuration.
+ */
+export async function recordConsent(email: string, action: ConsentAction, mailingLists: MailingLists, {ip, formUrl, language, captchaScore, timestamp}: ConsentContext = {}) {
+  const config = loadConfiguration().consent;
+  const ledger = getConsentLedger(config);
+  if (ledger === null) {
+    return;
+  }
+  await ledger.append({
+    email,
+    action,
+    timestamp: timestamp ?? new Date().toISOString(),
+    ipHash: ip !== undefined ? hashIp(ip, config.ipSalt!) : undefined,
+    formUrl,
+    language,
+    captchaScore,
+    mailingLists,
+    policy: {version: config.policyVersion, text: config.policyText},
+  });
+}
+
+/**
+ * Consent records of the contact, oldest first; empty when consent is not recorded.
+ */
+export async function getConsentRecords(email: string): Promise<ConsentRecord[]> {
+  return await getConsentLedger()?.list(email) ?? [];
+}
+
+/**
+ * Delete consent records of the contact; nothing to do when consent is not recorded.
+ */
+export async function eraseConsentRecords(email: string) {
+  await getConsentLedger()?.erase(email);
+}
+
+/**
+ * Keyed hash of the IP address: the same address can be matched later,
+ * but the addresses cannot be enumerated without the salt.
+ */
+export function hashIp(ip: string, salt: string): string {
+  return createHmac('sha256', salt).update(ip).digest('hex');
+}
+
+function contactPrefix(email: string): string {
+  return `${PREFIX}${createHash('sha256').update(email.toLowerCase()).digest('hex')}/`;
+}
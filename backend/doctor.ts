@@ -0,0 +1,264 @@
+import localization from '../lit-localize.json';
+import { Configuration, FormConfiguration, loadConfiguration } from './config';
+import { STANDARD_PROPERTIES } from './form';
+import { getMailer } from './mailer';
+import { getProvider, isReservedProperty } from './provider';
+import { CUSTOM_PROPERTIES, MIGRATIONS, getAppliedVersion } from './migrations';
+import { getStore } from './store';
+
+export type DoctorCheckStatus = 'ok' | 'warning' | 'error';
+
+/**
+ * Result of a single setup check.
+ */
+export interface DoctorCheck {
+  /** What was checked e.g. `Custom property xOptInStatus` */
+  name: string;
+  status: DoctorCheckStatus;
+  message: string;
+  /** What to do to fix the problem */
+  hint?: string;
+}
+
+export interface DoctorReport {
+  /** False when any check failed with an error; warnings are allowed */
+  success: boolean;
+  checks: DoctorCheck[];
+}
+
+/**
+ * Locales supported by the control panel; confirmation email is needed for each of them.
+ */
+export const LOCALES: string[] = [localization.sourceLocale, ...localization.targetLocales];
+
+/**
+ * Verify the configuration and the mailing provider account setup.
+ *
+ * Checks:
+ *  - CORS_ORIGIN, CAPTCHA and CONFIRMATION_MODE settings,
+ *  - all schema migrations were applied,
+ *  - custom contact properties exist with the right types,
+ *  - form properties can be set by the form and exist with the right types,
+ *  - public mailing lists exist,
+ *  - confirmation email (and its translation for every locale) exists.
+ */
+export async function runDoctor(): Promise<DoctorReport> {
+  let config: Configuration;
+  try {
+    config = loadConfiguration();
+  } catch (error) {
+    return report([{
+      name: 'Configuration',
+      status: 'error',
+      message: (error as Error).message,
+      hint: 'Run scripts/generate-env.bash for a sample configuration',
+    }]);
+  }
+
+  const checks = [
+    checkCorsOrigin(config.server.corsOrigin),
+    checkCaptcha(config),
+    checkConfirmationMode(config),
+    ...await guard('Migrations', checkMigrations, 'Check the store configuration (STORE)'),
+    ...await guard('Custom properties', checkCustomProperties),
+    ...await guard('Form properties', () => checkFormProperties(config.form)),
+    ...await guard('Mailing lists', checkMailingLists),
+    ...await guard('Confirmation email', () => getMailer().checkConfirmationTemplates(LOCALES)),
+    ...await guard('Control panel email', () => getMailer().checkControlPanelTemplates(LOCALES)),
+  ];
+  return report(checks);
+}
+
+function report(checks: DoctorCheck[]): DoctorReport {
+  return {
+    success: checks.every((check) => check.status !== 'error'),
+    checks,
+  };
+}
+
+/**
+ * Report failing requests (invalid API key, network errors) as a failed check.
+ */
+async function guard(
+  name: string,
+  check: () => Promise<DoctorCheck[]>,
+  hint = 'Check the mailing provider API key (LOOPS_SO_SECRET) and the connection',
+): Promise<DoctorCheck[]> {
+  try {
+    return await check();
+  } catch (error) {
+    return [{
+      name,
+      status: 'error',
+      message: error instanceof Error ? error.message : String(error),
+      hint,
+    }];
+  }
+}
+
+function checkCorsOrigin(corsOrigin: string[]): DoctorCheck {
+  const name = 'CORS_ORIGIN';
+  if (corsOrigin.length === 0) {
+    return {
+      name,
+      status: 'warning',
+      message: 'No origins allowed; forms on other sites cannot subscribe',
+      hint: 'Set CORS_ORIGIN to the space separated list of sites with subscription forms e.g. https://example.com',
+    };
+  }
+  if (corsOrigin.includes('*')) {
+    return {
+      name,
+      status: 'warning',
+      message: 'All origins are allowed',
+      hint: 'Set CORS_ORIGIN to the sites with subscription forms only',
+    };
+  }
+  const invalid = corsOrigin.filter((origin) => !isOrigin(origin));
+  if (invalid.length > 0) {
+    return {
+      name,
+      status: 'error',
+      message: `Not an origin: ${invalid.join(' ')}`,
+      hint: 'Origin is a protocol, host and optional port without path or trailing slash e.g. https://example.com',
+    };
+  }
+  const insecure = corsOrigin.filter((origin) => origin.startsWith('http:') && new URL(origin).hostname !== 'localhost');
+  if (insecure.length > 0) {
+    return {
+      name,
+      status: 'warning',
+      message: `Insecure origins: ${insecure.join(' ')}`,
+      hint: 'Use https:// origins',
+    };
+  }
+  return {name, status: 'ok', message: corsOrigin.join(' ')};
+}
+
+function isOrigin(value: string): boolean {
+  try {
+    return new URL(value).origin === value;
+  } catch {
+    return false;
+  }
+}
+
+function checkCaptcha(config: Configuration): DoctorCheck {
+  const name = 'CAPTCHA';
+  const {provider, siteKey, secret, branding} = config.captcha;
+  if (provider === 'none') {
+    return {
+      name,
+      status: 'warning',
+      message: 'CAPTCHA is disabled; bots can trigger confirmation emails',
+      hint: 'Set CAPTCHA_PROVIDER to recaptcha or hcaptcha',
+    };
+  }
+  if (siteKey === secret) {
+    return {
+      name,
+      status: 'error',
+      message: 'Site key and secret are the same',
+      hint: `Copy the secret from the ${provider} console`,
+    };
+  }
+  if (provider === 'recaptcha' && branding === 'none') {
+    return {
+      name,
+      status: 'warning',
+      message: 'reCAPTCHA badge is hidden without the disclaimer',
+      hint: 'reCAPTCHA terms require the badge or the disclaimer; set CAPTCHA_BRANDING to badge or disclaimer',
+    };
+  }
+  const hostnames = config.server.corsOrigin.filter(isOrigin).map((origin) => new URL(origin).hostname);
+  return {
+    name,
+    status: 'ok',
+    message: `${provider} with ${branding} branding`,
+    hint: hostnames.length > 0 ? `Make sure ${hostnames.join(', ')} are allowed domains in the ${provider} site settings` : undefined,
+  };
+}
+
+function checkConfirmationMode(config: Configuration): DoctorCheck {
+  const name = 'CONFIRMATION_MODE';
+  const mode = config.mailing.confirmationMode;
+  if (mode === 'auto') {
+    return {
+      name,
+      status: 'warning',
+      message: 'Subscriptions are confirmed when the link is opened; email link scanners can confirm them',
+      hint: 'Set CONFIRMATION_MODE to click or captcha',
+    };
+  }
+  if (mode === 'captcha' && config.captcha.provider === 'none') {
+    return {
+      name,
+      status: 'warning',
+      message: 'CAPTCHA is disabled; subscriptions are confirmed when the link is opened',
+      hint: 'Set CAPTCHA_PROVIDER to recaptcha or hcaptcha, or CONFIRMATION_MODE to click',
+    };
+  }
+  return {name, status: 'ok', message: mode};
+}
+
+async function checkMigrations(): Promise<DoctorCheck[]> {
+  const version = await getAppliedVersion(getStore());
+  const latest = MIGRATIONS.length;
+  if (version < latest) {
+    return [{
+      name: 'Migrations',
+      status: 'warning',
+      message: `Schema version ${version}, latest ${latest}`,
+      hint: 'Redeploy the site to apply pending migrations',
+    }];
+  }
+  return [{name: 'Migrations', status: 'ok', message: `Schema version ${version}`}];
+}
+
+async function checkCustomProperties(): Promise<DoctorCheck[]> {
+  const properties = await getProvider().getCustomProperties();
+  return CUSTOM_PROPERTIES.map(({key, type}) => {
+    const name = `Custom property ${key}`;
+    const found = properties.find((prop) => prop.key === key);
+    if (found === undefined) {
+      return {name, status: 'error', message: 'Missing', hint: `Redeploy the site to apply migrations or add ${type} property ${key} in the mailing provider settings`};
+    }
+    if (found.type !== type) {
+      return {name, status: 'error', message: `Has type ${found.type}, expected ${type}`, hint: `Recreate ${key} as a ${type} property`};
+    }
+    return {name, status: 'ok', message: type};
+  });
+}
+
+async function checkFormProperties(form: FormConfiguration): Promise<DoctorCheck[]> {
+  const properties = await getProvider().getCustomProperties();
+  return Object.entries(form.properties).map(([key, type]) => {
+    const name = `Form property ${key}`;
+    if (isReservedProperty(key)) {
+      return {name, status: 'error', message: 'Reserved property cannot be set by form', hint: `Remove ${key} from FORM_PROPERTIES`};
+    }
+    const found = Object.hasOwn(STANDARD_PROPERTIES, key)
+      ? {key, type: STANDARD_PROPERTIES[key]}
+      : properties.find((prop) => prop.key === key);
+    if (found === undefined) {
+      return {name, status: 'error', message: 'Missing', hint: `Add ${type} property ${key} in the mailing provider settings or remove it from FORM_PROPERTIES`};
+    }
+    if (found.type !== type) {
+      return {name, status: 'error', message: `Has type ${found.type}, expected ${type}`, hint: `Set ${key}:${found.type} in FORM_PROPERTIES`};
+    }
+    return {name, status: 'ok', message: type};
+  });
+}
+
+async function checkMailingLists(): Promise<DoctorCheck[]> {
+  const mailingLists = await getProvider().getMailingLists();
+  if (mailingLists.length === 0) {
+    return [{
+      name: 'Mailing lists',
+      status: 'error',
+      message: 'No public mailing lists',
+      hint: 'Create a mailing list and make it public; private lists are not shown in the control panel',
+    }];
+  }
+  return [{name: 'Mailing lists', status: 'ok', message: mailingLists.map((list) => list.name).join(', ')}];
+}
@@ -0,0 +1,134 @@
+import type { FormConfiguration } from './config';
+import { HttpError } from './error';
+import { isReservedProperty } from './provider';
+import type { ContactProperties, ContactPropertyType } from './provider';
+
+export type FormValue = string | number | boolean;
+
+/**
+ * Standard Loops contact properties; they do not need to be created as custom properties.
+ * @see https://loops.so/docs/contacts/properties#default-contact-properties
+ */
+export const STANDARD_PROPERTIES: Record<string, ContactPropertyType> = {
+  firstName: 'string',
+  lastName: 'string',
+  userGroup: 'string',
+  source: 'string',
+};
+
+const TRUE_VALUES = ['true', 'on', 'yes', '1'];
+const FALSE_VALUES = ['false', 'off', 'no', '0', ''];
+
+/**
+ * Contact properties from the subscription form fields.
+ *
+ * Fields are checked against the form schema (env:FORM_PROPERTIES)
+ * and converted to the property type - HTML forms send strings only.
+ * Reserved properties are always rejected; unknown ones are dropped or rejected (env:FORM_UNKNOWN_PROPERTIES).
+ *
+ * Throws 400 Bad Request for invalid fields.
+ * @param fields  Form fields without the built-in ones (email, mailingLists etc.)
+ */
+export function parseFormProperties(fields: Record<string, unknown>, config: FormConfiguration): ContactProperties {
+  const properties: ContactProperties = {};
+  for (const [key, value] of Object.entries(fields)) {
+    if (isReservedProperty(key)) {
+      throw new HttpError({
+        statusCode: 400,
+        reason: 'reserved-property',
+        message: `Property cannot be set by form: ${key}`,
+      });
+    }
+    const type = Object.hasOwn(config.properties, key) ? config.properties[key] : undefined;
+    if (type === undefined) {
+      if (config.unknownProperties === 'reject') {
+        throw new HttpError({
+          statusCode: 400,
+          reason: 'unknown-property',
+          message: `Unknown property: ${key}`,
+        });
+      }
+      console.info(`dropping unknown form property ${key}`);
+      continue;
+    }
+    properties[key] = coerce(key, value, type);
+  }
+  return properties;
+}
+
+function coerce(key: string, value: unknown, type: ContactPropertyType): FormValue | null {
+  const invalid = () => new HttpError({
+    statusCode: 400,
+    reason: 'invalid-property',
+    message: `Property ${key} must be a ${type}`,
+    details: `${key}=${JSON.stringify(value)}`,
+  });
+  if (typeof value !== 'string' && typeof value !== 'number' && typeof value !== 'boolean') {
+    throw invalid();
+  }
+  const text = String(value).trim();
+  switch (type) {
+    case 'string':
+      return String(value);
+    case 'number': {
+      if (text === '') {
+        return null;
+      }
+      const number = Number(text);
+      if (Number.isNaN(number)) {
+        throw invalid();
+      }
+      return number;
+    }
+    case 'boolean':
+      if (TRUE_VALUES.includes(text.toLowerCase())) {
+        return true;
+      } else if (FALSE_VALUES.includes(text.toLowerCase())) {
+        return false;
+      }
+      throw invalid();
+    case 'date': {
+      if (text === '') {
+        return null;
+      }
+      const date = new Date(typeof value === 'number' ? value : text);
+      if (typeof value === 'boolean' || Number.isNaN(date.getTime())) {
+        throw invalid();
+      }
+      return date.toISOString();
+    }
+  }
+}
+
+/**
+ * OpenAPI schema of the form property.
+ * Accepts both the typed JSON value and its text form sent by HTML forms.
+ */
+function propertySchema(type: ContactPropertyType): object {
+  switch (type) {
+    case 'string':
+      return {type: 'string'};
+    case 'number':
+      return {anyOf: [{type: 'number'}, {type: 'string', pattern: '^\\s*(-?\\d+(\\.\\d+)?)?\\s*$'}]};
+    case 'boolean':
+      return {anyOf: [{type: 'boolean'}, {type: 'string', enum: [...TRUE_VALUES, ...FALSE_VALUES]}]};
+    case 'date':
+      return {anyOf: [{type: 'string', format: 'date'}, {type: 'string', format: 'date-time'}, {type: 'string', maxLength: 0}]};
+  }
+}
+
+/**
+ * OpenAPI spec with the `SubscribeRequest` schema generated from the form schema.
+ * @returns patched copy of the spec
+ */
+export function withFormProperties<T extends object>(spec: T, config: FormConfiguration): T {
+  const patched = structuredClone(spec) as T & {components: {schemas: Record<string, {properties: Record<string, object>, additionalProperties?: unknown}>}};
+  const subscribeRequest = patched.components.schemas.SubscribeRequest;
+  for (const [key, type] of Object.entries(config.properties)) {
+    if (!isReservedProperty(key) && subscribeRequest.properties[key] === undefined) {
+      subscribeRequest.properties[key] = {...propertySchema(type), description: `Contact property (${type})`};
+    }
+  }
+  subscribeRequest.additionalProperties = config.unknownProperties === 'reject' ? false : true;
+  return patched;
+}
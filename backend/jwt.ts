@@ -1,77 +1,217 @@
 
-import { sign, verify, JwtPayload, Algorithm, JsonWebTokenError, TokenExpiredError, NotBeforeError, SignOptions} from 'jsonwebtoken';
+import { sign, verify, decode, JwtPayload, Algorithm, JsonWebTokenError, TokenExpiredError, NotBeforeError, SignOptions} from 'jsonwebtoken';
 import { HttpError } from './error';
-import { StringValue as TimeDeltaString } from 'ms';
 import { Request } from 'express';
+import { createHash, randomUUID } from 'crypto';
+import { JwtKey, loadConfiguration, ServerConfiguration } from './config';
+import { consumeNonce, isNonceUsed, releaseNonce } from './nonce';
+import { getStore } from './store';
+import { getProvider } from './provider';
+import type { Contact } from './provider';
 
-const SECRET = process.env.JWT_SECRET;
-// @todo refresh mechanism is needed to really handle expiration
-// @see https://www.npmjs.com/package/ms
-const TOKEN_EXPIRATION : TimeDeltaString = process.env.JWT_EXPIRATION as TimeDeltaString || '1 year';
 const ALGORITHM : Algorithm = 'HS512'; // HMAC with SHA-512 hash
+// Key of tokens issued before key IDs were introduced.
+const DEFAULT_KEY_ID = 'default';
+
+/**
+ * Purpose of the token:
+ *  - confirm: short-lived, single-use link in the confirmation email,
+ *  - manage: control panel link; can do everything,
+ *  - unsubscribe: long-lived link in email footers; can only read the status and unsubscribe.
+ */
+export type TokenScope = 'confirm' | 'manage' | 'unsubscribe';
+export const TOKEN_SCOPES: TokenScope[] = ['confirm', 'manage', 'unsubscribe'];
+// Scope of tokens issued before scopes were introduced.
+const DEFAULT_SCOPE: TokenScope = 'manage';
+// Scopes of single-use tokens; they carry a `jti` claim.
+const SINGLE_USE_SCOPES: TokenScope[] = ['confirm'];
+
+/**
+ * Change of a single mailing list a list link is limited to.
+ */
+export interface ListLink {
+  /** Mailing list ID */
+  list: string;
+  action: 'subscribe' | 'unsubscribe';
+}
+
+/**
+ * Verified token claims.
+ */
+export interface TokenClaims {
+  /** User's email address */
+  email: string;
+  scope: TokenScope;
+  /** Token ID of single-use tokens */
+  jti?: string;
+  /** Expiration of the link; sessions expire earlier */
+  expiresAt?: Date;
+  /** Token generation of the contact when the token was issued; 0 for tokens issued before generations */
+  generation: number;
+  /** When the token was signed */
+  issuedAt?: Date;
+  /** Short-lived control panel session, not a link from an email */
+  session?: boolean;
+  /** The only mailing list change allowed by a list link, besides unsubscribing from all */
+  listLink?: ListLink;
+}
+
+export interface Session {
+  token: string;
+  expiresAt: Date;
+}
+
+/**
+ * Signing keys and token lifetimes (env:JWT_KEYS, env:JWT_SECRET, env:JWT_EXPIRATION...).
+ * Throws 500 Internal Server Error when they are not configured.
+ */
+function loadServerConfiguration(): ServerConfiguration {
+  try {
+    return loadConfiguration().server;
+  } catch (error) {
+    throw new HttpError({
+      statusCode: 500,
+      reason: 'server-configuration-error',
+      message: "Server configuration error",
+      details: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
 
 /***
  * Create Json Web Token to authorize future requests.
  * 
  * @param email  User's email address
+ * @param scope       What the token can be used for; it also sets the token lifetime
+ * @param generation  Current token generation of the contact (`xTokenGeneration`);
+ *                    tokens of older generations are revoked
+ * @param listLink    Limit the token to a change of one mailing list
  * @see https://datatracker.ietf.org/doc/html/rfc7519
  */
-export function createToken(email: string, issuer: URL): string
+export function createToken(email: string, issuer: URL, scope: TokenScope, generation = 0, listLink?: ListLink): string
 {
-  if (SECRET === undefined) {
-    throw new HttpError({
-      statusCode: 500,
-      reason: 'server-configuration-error',
-      message: "Server configuration error",
-      details: "JWT_SECRET not defined"
-    });
+  const {jwtKeys, jwtExpiration} = loadServerConfiguration();
+  // The newest key signs.
+  const [key] = jwtKeys;
+
+  const options : SignOptions = {
+      subject: email,
+      issuer: issuer.hostname,
+      algorithm: ALGORITHM,
+      expiresIn: Math.floor(jwtExpiration[scope] / 1000),
+      keyid: key.id,
+  };
+  if (SINGLE_USE_SCOPES.includes(scope)) {
+    options.jwtid = randomUUID();
   }
+  console.debug('createToken', scope, options);
+
+  return sign ({scope, gen: generation, ...listLinkClaims(listLink)}, key.secret, options);
+}
 
+/**
+ * Create a short-lived session token in exchange for a verified link token.
+ *
+ * The session keeps the scope, token ID and generation of the link,
+ * so single-use links are still used up once and revoked links revoke their sessions.
+ * It expires after JWT_SESSION_EXPIRATION, but never after the link.
+ */
+export function createSession({email, scope, jti, expiresAt, generation, listLink}: TokenClaims, issuer: URL): Session
+{
+  const {jwtKeys, sessionExpiration} = loadServerConfiguration();
+  const [key] = jwtKeys;
+
+  let sessionExpiresAt = new Date(Date.now() + sessionExpiration);
+  if (expiresAt !== undefined && expiresAt < sessionExpiresAt) {
+    sessionExpiresAt = expiresAt;
+  }
   const options : SignOptions = {
       subject: email,
       issuer: issuer.hostname,
       algorithm: ALGORITHM,
-      expiresIn: TOKEN_EXPIRATION,
+      keyid: key.id,
   };
-  console.debug('createToken', options);
+  if (jti !== undefined) {
+    options.jwtid = jti;
+  }
+  const payload: JwtPayload = {scope, gen: generation, ses: true, exp: Math.floor(sessionExpiresAt.getTime() / 1000), ...listLinkClaims(listLink)};
+  if (expiresAt !== undefined) {
+    // Single-use links are remembered until the link expires, not the session.
+    payload.lexp = Math.floor(expiresAt.getTime() / 1000);
+  }
+  console.debug('createSession', scope, options);
+
+  return {token: sign(payload, key.secret, options), expiresAt: sessionExpiresAt};
+}
+
+function listLinkClaims(listLink?: ListLink): JwtPayload {
+  return listLink === undefined ? {} : {list: listLink.list, act: listLink.action};
+}
+
+export interface ValidateOptions {
+  /**
+   * Accept expired tokens; signature, issuer and key are still verified.
+   * Used to send a fresh link to the owner of an expired one.
+   */
+  ignoreExpiration?: boolean;
+  /**
+   * Scopes allowed for the request; 403 Forbidden for tokens of other scopes.
+   * default: any scope
+   */
+  scopes?: TokenScope[];
+}
 
-  return sign ({}, SECRET, options);
+export async function authenticate(req: Request, options: ValidateOptions = {}): Promise<string> {
+  return (await authenticateToken(req, options)).email;
 }
 
-export function authenticate(req: Request): string {
+export async function authenticateToken(req: Request, options: ValidateOptions = {}): Promise<TokenClaims> {
   const token = req.headers.authorization?.match(/Bearer ([^ ]+)/);
   if (!token)
     throw new HttpError({statusCode: 401, reason: 'missing-token', message: 'Unauthorized'});
   // @todo WWW-Authenticate header?
   // https://datatracker.ietf.org/doc/html/rfc6750#section-3
 
-  return validateToken(token[1], req.hostname);
+  const claims = verifyToken(token[1], req.hostname, options);
+  await checkGeneration(claims);
+  return claims;
 }
 
 /**
  * Verify token signature.
- * 
- * Throws 401 Unauthorized if verification fails.
+ *
+ * The token is verified with the key named in its `kid` header;
+ * tokens without key ID were signed with JWT_SECRET (`default` key).
+ * Throws 401 Unauthorized if verification fails, the key is unknown or retired
+ * or the token was revoked, 403 Forbidden if the token scope is not allowed.
  * @return User's email address
  */
-export function validateToken(jwt: string, issuer: string): string
+export async function validateToken(jwt: string, issuer: string, options: ValidateOptions = {}): Promise<string>
 {
-  if (SECRET === undefined) {
-    throw new HttpError({
-      statusCode: 500,
-      message: "Server configuration error",
-      details: "JWT_SECRET not defined"
-    });
-  }
+  const claims = verifyToken(jwt, issuer, options);
+  await checkGeneration(claims);
+  return claims.email;
+}
 
-  // @todo add way rotate the server secret and client token after expiration
+/**
+ * Verify token signature and scope.
+ * Does not check revocation, which needs the contact.
+ * @see validateToken
+ */
+export function verifyToken(jwt: string, issuer: string, {ignoreExpiration = false, scopes = TOKEN_SCOPES}: ValidateOptions = {}): TokenClaims
+{
+  const keys = loadServerConfiguration().jwtKeys;
+
+  // @todo rotate client token after expiration
   let payload: JwtPayload;
   
   try {
     console.debug('validateToken', jwt);
-    payload = verify(jwt, SECRET, {
+    const key = findKey(keys, decode(jwt, {complete: true})?.header.kid);
+    payload = verify(jwt, key.secret, {
       algorithms: [ALGORITHM],
       complete: false,
+      ignoreExpiration,
       issuer
     }) as JwtPayload;
   } catch(error) {
@@ -103,5 +243,164 @@ export function validateToken(jwt: string, issuer: string): string
     });
   }
 
-  return payload.sub;
-}
\ No newline at end of file
+  const scope: TokenScope = payload.scope ?? DEFAULT_SCOPE;
+  if (!scopes.includes(scope)) {
+    throw new HttpError({
+      statusCode: 403,
+      reason: 'insufficient-scope',
+      message: 'Forbidden',
+      details: `Token scope ${scope} is not one of ${scopes.join(', ')}`
+    });
+  }
+
+  const expiresAt = payload.lexp ?? payload.exp;
+  return {
+    email: payload.sub,
+    scope,
+    jti: payload.jti,
+    expiresAt: expiresAt === undefined ? undefined : new Date(expiresAt * 1000),
+    generation: payload.gen ?? 0,
+    issuedAt: payload.iat === undefined ? undefined : new Date(payload.iat * 1000),
+    session: payload.ses === true,
+    listLink: payload.list === undefined ? undefined : {list: payload.list, action: payload.act},
+  };
+}
+
+/**
+ * Tokens of a deleted contact issued before this time are rejected.
+ */
+interface AddressRevocation {
+  /** ISO 8601 */
+  revokedAt: string;
+}
+
+/** Key prefix of address revocations, followed by the SHA-256 of the address */
+const REVOCATION_PREFIX = 'revoked-address/';
+
+/**
+ * Throws 401 Unauthorized if tokens of the contact were revoked after the token was issued
+ * or the contact was deleted.
+ */
+async function checkGeneration(claims: TokenClaims): Promise<void> {
+  const contact = await getProvider().findContact(claims.email);
+  if (contact === null) {
+    throw new HttpError({
+      statusCode: 401,
+      reason: 'revoked-token',
+      message: 'Unauthorized',
+      details: `Contact ${claims.email} deleted`
+    });
+  }
+  const generation = contact.xTokenGeneration ?? 0;
+  if (claims.generation < generation) {
+    throw new HttpError({
+      statusCode: 401,
+      reason: 'revoked-token',
+      message: 'Unauthorized',
+      details: `Token generation ${claims.generation} of ${claims.email} revoked, current ${generation}`
+    });
+  }
+  // A contact created again after the deletion starts from generation 0.
+  const revocation = await getStore().get<AddressRevocation>(revocationKey(claims.email));
+  if (revocation !== undefined) {
+    // Token timestamps have a resolution of seconds.
+    const revokedAt = Math.floor(new Date(revocation.revokedAt).getTime() / 1000) * 1000;
+    if (claims.issuedAt === undefined || claims.issuedAt.getTime() <= revokedAt) {
+      throw new HttpError({
+        statusCode: 401,
+        reason: 'revoked-token',
+        message: 'Unauthorized',
+        details: `Tokens of ${claims.email} issued before ${revocation.revokedAt} revoked`
+      });
+    }
+  }
+}
+
+/**
+ * Invalidate all tokens issued to the address so far, when its contact is deleted.
+ *
+ * Unlike token generations kept by the contact, the revocation is kept in the store (env:STORE),
+ * so the tokens stay invalid when the address subscribes again.
+ */
+export async function revokeAddressTokens(email: string, now: Date = new Date()): Promise<void> {
+  console.info(`revoking tokens of ${email} issued before ${now.toISOString()}`);
+  await getStore().set<AddressRevocation>(revocationKey(email), {revokedAt: now.toISOString()});
+}
+
+function revocationKey(email: string): string {
+  return REVOCATION_PREFIX + createHash('sha256').update(email.trim().toLowerCase()).digest('hex');
+}
+
+/**
+ * Invalidate all tokens issued to the contact so far.
+ * @returns new token generation for tokens issued from now on
+ */
+export async function revokeTokens(contact: Contact): Promise<number> {
+  const generation = (contact.xTokenGeneration ?? 0) + 1;
+  console.info(`revoking tokens of ${contact.email}, new generation ${generation}`);
+  await getProvider().updateContactProperties(contact.email, {xTokenGeneration: generation});
+  return generation;
+}
+
+/**
+ * Use up a single-use token; tokens of other scopes can be used many times.
+ *
+ * Throws 401 Unauthorized if the token was used before.
+ */
+export async function consumeToken(claims: TokenClaims): Promise<void> {
+  if (!SINGLE_USE_SCOPES.includes(claims.scope)) {
+    return;
+  }
+  if (claims.jti === undefined || claims.expiresAt === undefined) {
+    throw new HttpError({
+      statusCode: 401,
+      reason: 'invalid-token',
+      message: 'Unauthorized',
+      details: `Single-use ${claims.scope} token without ID or expiration`
+    });
+  }
+  if (!await consumeNonce(getStore(), claims.jti, claims.expiresAt)) {
+    throw new HttpError({
+      statusCode: 401,
+      reason: 'used-token',
+      message: 'Unauthorized',
+      details: `Token ${claims.jti} of ${claims.email} was used before`
+    });
+  }
+}
+
+/**
+ * Check that a single-use token was not used yet, without using it up.
+ *
+ * Throws 401 Unauthorized if the token was used before.
+ */
+export async function checkTokenUnused(claims: TokenClaims): Promise<void> {
+  if (SINGLE_USE_SCOPES.includes(claims.scope) && claims.jti !== undefined && await isNonceUsed(getStore(), claims.jti)) {
+    throw new HttpError({
+      statusCode: 401,
+      reason: 'used-token',
+      message: 'Unauthorized',
+      details: `Token ${claims.jti} of ${claims.email} was used before`
+    });
+  }
+}
+
+/**
+ * Let a consumed single-use token be used again, when the request it authorized failed.
+ */
+export async function releaseToken(claims: TokenClaims): Promise<void> {
+  if (SINGLE_USE_SCOPES.includes(claims.scope) && claims.jti !== undefined) {
+    await releaseNonce(getStore(), claims.jti);
+  }
+}
+
+function findKey(keys: JwtKey[], id: string = DEFAULT_KEY_ID): JwtKey {
+  const key = keys.find((key) => key.id === id);
+  if (key === undefined) {
+    throw new JsonWebTokenError(`unknown key ID ${id}`);
+  }
+  if (key.retiresAt !== undefined && key.retiresAt.getTime() <= Date.now()) {
+    throw new JsonWebTokenError(`key ${id} retired at ${key.retiresAt.toISOString()}`);
+  }
+  return key;
+}
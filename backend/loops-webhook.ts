@@ -0,0 +1,172 @@
+import { timingSafeEqual } from 'crypto';
+import { IncomingHttpHeaders } from 'http';
+import { loadConfiguration } from './config';
+import { HttpError } from './error';
+import { consumeNonce, releaseNonce } from './nonce';
+import { getProvider } from './provider';
+import type { MailingLists } from './provider';
+import { getStore } from './store';
+import { webhookSignature } from './webhooks';
+
+/**
+ * Loops webhook payload; only the fields used here.
+ * @see https://loops.so/docs/webhooks
+ */
+export interface LoopsWebhookEvent {
+  eventName: string;
+  /** Unix time in seconds */
+  eventTime: number;
+  webhookSchemaVersion: string;
+  /** Missing in events not related to a contact */
+  contactIdentity?: {
+    id: string;
+    email: string;
+    userId: string | null;
+  };
+  /** Present in `contact.mailingList.*` events */
+  mailingList?: {
+    id: string;
+    name: string;
+  };
+}
+
+/**
+ * Accepted difference between the signed timestamp and the server clock.
+ * Signed requests older than this are rejected as replays.
+ */
+export const WEBHOOK_TOLERANCE = 5 * 60 * 1000;
+
+/** Events after which the contact does not want or cannot get emails */
+const OPT_OUT_EVENTS = new Set(['contact.unsubscribed', 'email.hardBounced', 'email.spamReported']);
+
+/**
+ * Verify the Standard Webhooks signature of the request (see webhookSignature).
+ *
+ * Throws 401 Unauthorized when the signature does not match or the timestamp is out of the tolerance.
+ */
+export function verifyWebhookSignature(secret: string, headers: IncomingHttpHeaders, body: Buffer, now: number = Date.now()) {
+  const id = headers['webhook-id'];
+  const timestamp = headers['webhook-timestamp'];
+  const signatures = headers['webhook-signature'];
+  if (typeof id !== 'string' || typeof timestamp !== 'string' || typeof signatures !== 'string') {
+    throw new HttpError({statusCode: 401, reason: 'missing-signature', message: 'Unauthorized'});
+  }
+
+  const sentAt = Number.parseInt(timestamp) * 1000;
+  if (Number.isNaN(sentAt) || Math.abs(now - sentAt) > WEBHOOK_TOLERANCE) {
+    throw new HttpError({
+      statusCode: 401,
+      reason: 'stale-webhook',
+      message: 'Unauthorized',
+      details: `Webhook ${id} timestamp ${timestamp} is out of the tolerance`,
+    });
+  }
+
+  const expected = webhookSignature(secret, id, timestamp, body);
+  // Several space separated signatures are sent while the secret is rotated.
+  const valid = signatures.split(' ').some((versioned) => {
+    const [version, signature] = versioned.split(',');
+    const actual = Buffer.from(signature ?? '', 'base64');
+    return version === 'v1' && actual.length === expected.length && timingSafeEqual(actual, expected);
+  });
+  if (!valid) {
+    throw new HttpError({
+      statusCode: 401,
+      reason: 'invalid-signature',
+      message: 'Unauthorized',
+      details: `Webhook ${id} signature does not match`,
+    });
+  }
+}
+
+/**
+ * Verify and apply a Loops webhook request.
+ *
+ * Loops retries failed deliveries; a webhook ID is applied once,
+ * repeated deliveries within the tolerance are acknowledged without changes.
+ * Throws 403 Forbidden when LOOPS_WEBHOOK_SECRET is not set.
+ */
+export async function receiveLoopsWebhook(headers: IncomingHttpHeaders, body: Buffer) {
+  const secret = loadConfiguration().loopsSo?.webhookSecret;
+  if (secret === undefined) {
+    throw new HttpError({
+      statusCode: 403,
+      reason: 'webhook-disabled',
+      message: 'Forbidden',
+      details: 'LOOPS_WEBHOOK_SECRET not defined',
+    });
+  }
+  verifyWebhookSignature(secret, headers, body);
+
+  const event = parseWebhookEvent(body);
+  const nonce = `loops-webhook/${headers['webhook-id']}`;
+  const expiresAt = new Date(Number.parseInt(headers['webhook-timestamp'] as string) * 1000 + WEBHOOK_TOLERANCE);
+  if (!await consumeNonce(getStore(), nonce, expiresAt)) {
+    console.info(`loops webhook: ${headers['webhook-id']} delivered before`);
+    return {success: true, applied: false};
+  }
+  try {
+    return {success: true, applied: await applyWebhookEvent(event)};
+  } catch (error) {
+    // Let the retried delivery apply the event.
+    await releaseNonce(getStore(), nonce);
+    throw error;
+  }
+}
+
+/**
+ * Sync the contact with the event.
+ *
+ * Unsubscribes, hard bounces and spam complaints reject the double opt-in,
+ * mailing list events update the contact lists.
+ * Loops already changed the contact, so only the difference is written.
+ * @returns whether the contact was changed
+ */
+export async function applyWebhookEvent({eventName, contactIdentity, mailingList}: LoopsWebhookEvent): Promise<boolean> {
+  const email = contactIdentity?.email;
+  if (email === undefined) {
+    console.debug(`loops webhook: ignoring ${eventName}`);
+    return false;
+  }
+  const provider = getProvider();
+  const contact = await provider.findContact(email);
+  if (contact === null) {
+    console.info(`loops webhook: ${eventName} of unknown contact ${email}`);
+    return false;
+  }
+
+  if (OPT_OUT_EVENTS.has(eventName)) {
+    if (contact.optInStatus === 'rejected' && !contact.subscribed) {
+      return false;
+    }
+    console.info(`loops webhook: ${eventName} rejects subscription of ${email}`);
+    await provider.unsubscribeContact(email);
+    return true;
+  }
+
+  if ((eventName === 'contact.mailingList.subscribed' || eventName === 'contact.mailingList.unsubscribed') && mailingList !== undefined) {
+    const subscribed = eventName === 'contact.mailingList.subscribed';
+    if ((contact.mailingLists[mailingList.id] ?? false) === subscribed) {
+      return false;
+    }
+    console.info(`loops webhook: ${eventName} ${mailingList.id} of ${email}`);
+    const mailingLists: MailingLists = {[mailingList.id]: subscribed};
+    await provider.updateMailingLists(email, mailingLists);
+    return true;
+  }
+
+  console.debug(`loops webhook: ignoring ${eventName}`);
+  return false;
+}
+
+function parseWebhookEvent(body: Buffer): LoopsWebhookEvent {
+  try {
+    const event = JSON.parse(body.toString('utf8'));
+    if (typeof event?.eventName === 'string' && (event.contactIdentity === undefined || typeof event.contactIdentity?.email === 'string')) {
+      return event;
+    }
+  } catch {
+    // reported below
+  }
+  throw new HttpError({statusCode: 400, reason: 'invalid-webhook', message: 'Invalid webhook payload'});
+}
@@ -1,221 +1,392 @@
-import { LoopsClient, ContactProperty, Contact as LoopsContact } from "loops";
-
-const API_KEY = process.env.LOOPS_SO_SECRET;
+import { randomUUID } from "crypto";
+import { APIError, LoopsClient, RateLimitExceededError, ContactProperty, Contact as LoopsContact, TransactionalEmail } from "loops";
+import type { LoopsSoConfiguration } from "./config";
+import { pendingBackfill } from "./migrations";
+import type { BackfillValue } from "./migrations";
+import type { Contact, ContactProperties, ContactPropertyType, CustomProperty, DoubleOptInStatus, MailingList, MailingLists, MailingProvider } from "./provider";
+import type { DoctorCheck } from "./doctor";
+import { DEFAULT_POLICY, parseRetryAfter, Resilience } from "./resilience";
+import type { Cache } from "./cache";
+import type { Failure } from "./resilience";
 
 const companyName = process.env.COMPANY_NAME;
 const companyAddress = process.env.COMPANY_ADDRESS;
 const companyLogo = process.env.COMPANY_LOGO;
 
-if (API_KEY === undefined)
-  throw new Error('Configuration error');
-
-const loops = new LoopsClient(API_KEY);
-
-
 /**
- * Initialize Loops — create custom properties.
- * 
- * @see https://loops.so/docs/contacts/properties
+ * Mailing provider backed by Loops.
+ *
+ * API calls go through the resilience layer: they time out, are retried after transient failures
+ * and fail fast with 503 Service Unavailable while Loops is down.
+ * Mailing lists and transactional emails are cached.
+ * @see https://loops.so/docs/api-reference
  */
-export async function initialize() {
-  const properties: ContactProperty[] = await loops.getCustomProperties('custom');
-
-  const upsertProperty = async (name: string, type: "string" | "number" | "boolean" | "date") => {
-    if (!properties.some((prop) => prop.key === name)) {
-      console.info(`creating ${name} property`);
-      await loops.createContactProperty(name, type);
-      return true;
-    } else {
-      console.log(`property ${name} already exists`);
-      return false;
-    }
-  };
+export class LoopsProvider implements MailingProvider {
+  private readonly loops: LoopsClient;
+  private readonly resilience: Resilience;
+  private readonly cache: Cache;
 
-  // Language preferred by contact; ISO 639 code.
-  await upsertProperty('language', 'string');
-
-  // Custom double opt-in status - 'pending', 'accepted' or 'rejected'.
-  await upsertProperty('xOptInStatus', 'string');
+  /**
+   * Get the list of transactional emails
+   *
+   * https://loops.so/docs/transactional
+   * https://app.loops.so/transactional
+   */
+  private readonly getTransactionalEmails: () => Promise<TransactionalEmail[]>;
 
-  // @todo verify double opt-in email exists and has all required data variables
+  constructor(configuration: LoopsSoConfiguration, cache: Cache) {
+    if (!configuration?.apiKey)
+      throw new Error('Configuration error');
 
-  console.info('loops initialized successfully');
-}
+    this.loops = new LoopsClient(configuration.apiKey);
+    this.loops['_makeQuery'] = queryKeepingRetryAfter(this.loops);
+    this.cache = cache;
+    this.resilience = new Resilience('Loops', classifyLoopsFailure, {
+      ...DEFAULT_POLICY,
+      timeout: configuration.timeout,
+      retries: configuration.retries,
+    });
+    this.getTransactionalEmails = unpaginate((params) => this.resilience.call(() => this.loops.getTransactionalEmails(params)));
+  }
 
-/**
- * Get publicly available mailing lists.
- */
-export async function getMailingLists() {
-  const allMailingLists = await loops.getMailingLists();
-  return allMailingLists.filter((mailingList) => mailingList.isPublic);
-}
+  /**
+   * Get custom contact properties.
+   * @see https://loops.so/docs/api-reference/list-contact-properties
+   */
+  async getCustomProperties(): Promise<CustomProperty[]> {
+    const properties = await this.resilience.call(() => this.loops.getCustomProperties('custom'));
+    return properties.map(({key, type}) => ({key, type: type as ContactPropertyType}));
+  }
 
+  /**
+   * @see https://loops.so/docs/api-reference/create-contact-property
+   */
+  async createCustomProperty(key: string, type: ContactPropertyType): Promise<void> {
+    await this.resilience.call(() => this.loops.createContactProperty(key, type), {idempotent: false});
+  }
 
-export interface Contact {
-  id: string;
-  email: string;
-  subscribed: boolean;
   /**
-   * Mailing lists the contact is subscribed to.
-   * @see https://loops.so/docs/contacts/mailing-lists
+   * Loops API cannot change property type nor delete a property.
    */
-  mailingLists: MailingLists;
+  async retypeCustomProperty(key: string, type: ContactPropertyType): Promise<void> {
+    throw new Error(`Loops API cannot change type of property ${key} to ${type}. `
+      + `Delete the property at https://app.loops.so/settings?page=contactProperties and redeploy to create it again.`);
+  }
+
   /**
-   * The contact's double opt-in status.
-   * Custom `xOptInStatus` property.
-   * @see See README.md for details
-   * @see https://loops.so/docs/contacts/double-opt-in
+   * Loops API cannot list all contacts - backfill is applied when the contact is read.
+   * @see findContact
    */
-  optInStatus: DoubleOptInStatus;
+  async backfillProperty(key: string, value: BackfillValue): Promise<void> {
+    console.info(`property ${key} is backfilled when contacts are read`);
+  }
+
   /**
-   * The URL of the page from which the subscription request was made.
+   * Get publicly available mailing lists.
    */
-  referer?: string;
-}
+  async getMailingLists(): Promise<MailingList[]> {
+    const allMailingLists = await this.cache.get('loops/mailing-lists', () => this.resilience.call(() => this.loops.getMailingLists()));
+    return allMailingLists.filter((mailingList) => mailingList.isPublic);
+  }
 
-type MailingLists = Record<string, boolean>;
-type ContactProperties = Record<string, string | number | boolean | null>;
-type DoubleOptInStatus = "pending" | "accepted" | "rejected" | null;
+  /**
+   * Find contact by email
+   * @see https://loops.so/docs/api-reference/find-contact
+   */
+  async findContact(email: string): Promise<Contact | null> {
+    const matchingContacts = await this.resilience.call(() => this.loops.findContact({email}));
+    if (matchingContacts.length === 0) {
+      return null;
+    } else {
+      const found = matchingContacts[0];
+      console.log(`findContact: ${JSON.stringify(found)}`);
+      const backfill = pendingBackfill(found as Contact);
+      if (Object.keys(backfill).length > 0) {
+        console.info(`backfilling ${Object.keys(backfill).join(', ')} for ${email}`);
+        await this.resilience.call(() => this.loops.updateContact({email, properties: backfill}));
+        Object.assign(found, backfill);
+      }
+      found.optInStatus = getDoubleOptInStatus(found);
+      return found;
+    }
+  }
 
-/**
- * Find contact by email
- * @see https://loops.so/docs/api-reference/find-contact
- */
-export async function findContact(email: string): Promise<Contact | null> {
-  const matchingContacts = await loops.findContact({email});
-  if (matchingContacts.length === 0) {
-    return null;
-  } else {
-    const found = matchingContacts[0];
-    console.log(`findContact: ${JSON.stringify(found)}`);
-    found.optInStatus = getDoubleOptInStatus(found);
-    return found;
+  /**
+   * Find contact or create a pending one.
+   * @param email           Contact email address
+   * @param properties      Extra contact properties (firstName, lastName, userGroup etc.)
+   * @param mailingListIds  Initial mailing list IDs (optional, defaults to all publicly available mailing lists)
+   * @see https://loops.so/docs/api-reference/create-contact
+   */
+  async upsertContact(email: string, properties: ContactProperties, mailingListIds?: string[]): Promise<Contact> {
+    const contact = await this.findContact(email);
+    if (contact === null) {
+      if (mailingListIds === undefined || mailingListIds.length === 0) {
+        mailingListIds = await this.getMailingLists().then(lists => lists.map(list => list.id));
+      }
+      const mailingLists = Object.fromEntries(mailingListIds!.map(listId => [listId, true]));
+      const createResponse = await this.resilience.call(() => this.loops.createContact({
+        email,
+        properties: {
+          subscribed: false,
+          xOptInStatus: 'pending',
+          ...properties
+        },
+        mailingLists,
+      }), {idempotent: false});
+      return {
+        id: createResponse.id,
+        email,
+        mailingLists,
+        subscribed: false,
+        optInStatus: 'pending',
+        ...properties
+      };
+    } else {
+      return contact;
+    }
   }
-}
 
-function getDoubleOptInStatus(contact: LoopsContact): DoubleOptInStatus {
-  const builtInStatus = contact.optInStatus;
-  const customStatus = contact.xOptInStatus as DoubleOptInStatus;
-  const settledStates = new Set<DoubleOptInStatus>(['accepted', 'rejected']);
-  if (settledStates.has(customStatus)) {
-    return customStatus;
-  } else if (settledStates.has(builtInStatus)) {
-    // When custom status is not settled, use the built-in one.
-    // We cannot re-send confirmation emails, if newsletter used
-    // built-in loops double opt-in and contact accepted or rejected subscription.
-    return builtInStatus;
-  } else {
-    return customStatus;
+  async updateContactProperties(email: string, properties: ContactProperties): Promise<void> {
+    await this.resilience.call(() => this.loops.updateContact({email, properties}));
   }
-}
 
+  async updateMailingLists(email: string, mailingLists: MailingLists): Promise<void> {
+    await this.resilience.call(() => this.loops.updateContact({email, mailingLists}));
+  }
 
-/**
- * Create or update contact.
- * @param email           Contact email address 
- * @param properties      Extra contact properties (firstName, lastName, userGroup etc.)
- * @param mailingListIds  Initial mailing list IDs (optional, defaults to all publicly available mailing lists)
- * @see https://loops.so/docs/api-reference/create-contact
- */
-export async function upsertContact(email: string, properties: ContactProperties, mailingListIds?: string[]): Promise<Contact> {
-  const contact = await findContact(email);
-  if (contact === null) {
-    if (mailingListIds === undefined || mailingListIds.length === 0) {
-      mailingListIds = await getMailingLists().then(lists => lists.map(list => list.id));
-    }
-    const mailingLists = Object.fromEntries(mailingListIds!.map(listId => [listId, true]));
-    const createResponse = await loops.createContact({
+  async subscribeContact(email: string, mailingLists?: MailingLists): Promise<void> {
+    await this.resilience.call(() => this.loops.updateContact({
       email,
       properties: {
-        subscribed: false,
-        xOptInStatus: 'pending',
-        ...properties
+        subscribed: true,
+        xOptInStatus: 'accepted',
       },
       mailingLists,
-    });
-    return {
-      id: createResponse.id,
+    }));
+  }
+
+  async unsubscribeContact(email: string): Promise<void> {
+    await this.resilience.call(() => this.loops.updateContact({
       email,
-      mailingLists,
-      subscribed: false,
-      optInStatus: 'pending',
-      ...properties
-    };
-  } else {
-    // @todo update properties if needed
-    return contact;
+      properties: {
+        subscribed: false,
+        xOptInStatus: 'rejected'
+      },
+    }));
   }
-}
 
-export async function subscribeContact(email: string, mailingLists?: MailingLists): Promise<void> {
-  await loops.updateContact({
-    email,
-    properties: {
-      subscribed: true,
-      xOptInStatus: 'accepted',
-    },
-    mailingLists,
-  });
-}
+  async deleteContact(email: string): Promise<void> {
+    await this.resilience.call(() => this.loops.deleteContact({email}));
+  }
 
-export async function unsubscribeContact(email: string): Promise<void> {
-  await loops.updateContact({
-    email,
-    properties: {
-      subscribed: false,
-      xOptInStatus: 'rejected'
-    },
-  });
-}
+  async findConfirmationTemplate(language?: string): Promise<string> {
+    return (await this.findEmail(CONFIRMATION_EMAIL, language)).name;
+  }
+
+  async sendConfirmationMail(email: string, confirmUrl: URL, language?: string): Promise<void> {
+    await this.sendEmail(CONFIRMATION_EMAIL, email, confirmUrl, language);
+  }
 
-export async function sendConfirmationMail(email: string, confirmUrl: URL, language?: string)
-{
-  const confirmationEmail = await findDoubleOptInEmail(language);
-  console.log(`Sending ${confirmationEmail.name} to ${email} with ${confirmUrl}`);
-  console.log(`Data variables: ${JSON.stringify(confirmationEmail.dataVariables)}`);
-  await loops.sendTransactionalEmail({
-    email: email,
-    transactionalId: confirmationEmail.id,
-    dataVariables: {
-      companyName: companyName || '',
-      companyAddress: companyAddress || '',
-      companyLogo: companyLogo || '',
-      xOptInUrl: confirmUrl.toString(),
+  /**
+   * Verify there is a double opt-in email and its translation for every locale.
+   * Bypasses the cache, so it sees the latest changes.
+   */
+  async checkConfirmationTemplates(locales: string[]): Promise<DoctorCheck[]> {
+    return await this.checkEmails(CONFIRMATION_EMAIL, locales);
+  }
+
+  async findControlPanelTemplate(language?: string): Promise<string> {
+    return (await this.findEmail(CONTROL_PANEL_EMAIL, language)).name;
+  }
+
+  async sendControlPanelMail(email: string, controlPanelUrl: URL, language?: string): Promise<void> {
+    await this.sendEmail(CONTROL_PANEL_EMAIL, email, controlPanelUrl, language);
+  }
+
+  /**
+   * Verify there is a control panel email and its translation for every locale.
+   * Bypasses the cache, so it sees the latest changes.
+   */
+  async checkControlPanelTemplates(locales: string[]): Promise<DoctorCheck[]> {
+    return await this.checkEmails(CONTROL_PANEL_EMAIL, locales);
+  }
+
+  private async sendEmail(kind: EmailKind, email: string, url: URL, language?: string): Promise<void> {
+    const transactionalEmail = await this.findEmail(kind, language);
+    console.log(`Sending ${transactionalEmail.name} to ${email} with ${url}`);
+    console.log(`Data variables: ${JSON.stringify(transactionalEmail.dataVariables)}`);
+    // Retries of the same email are sent once.
+    const idempotencyKey = randomUUID();
+    await this.resilience.call(() => this.loops.sendTransactionalEmail({
+      email: email,
+      transactionalId: transactionalEmail.id,
+      dataVariables: {
+        companyName: companyName || '',
+        companyAddress: companyAddress || '',
+        companyLogo: companyLogo || '',
+        [kind.variable]: url.toString(),
+      },
+      headers: {'Idempotency-Key': idempotencyKey},
+    }));
+  }
+
+  private async checkEmails(kind: EmailKind, locales: string[]): Promise<DoctorCheck[]> {
+    const transactionalEmails = await this.getTransactionalEmails();
+    const emails = transactionalEmails.filter((email) => email.dataVariables.includes(kind.variable));
+    if (emails.length === 0) {
+      return [{
+        name: kind.name,
+        status: 'error',
+        message: `No transactional email has the ${kind.variable} data variable`,
+        hint: `Create a ${kind.name.toLowerCase()} at https://app.loops.so/transactional with the ${kind.variable} data variable, e.g. "${kind.example}"`,
+      }];
+    }
+
+    const checks: DoctorCheck[] = [{
+      name: kind.name,
+      status: 'ok',
+      message: `Found ${emails.map((email) => `"${email.name}"`).join(', ')}`,
+    }];
+    for (const locale of locales) {
+      const tag = `#${locale.toUpperCase()}`;
+      const translated = emails.find((email) => email.name.includes(tag));
+      checks.push(translated ? {
+        name: `${kind.name} ${tag}`,
+        status: 'ok',
+        message: `"${translated.name}"`,
+      } : {
+        name: `${kind.name} ${tag}`,
+        status: 'warning',
+        message: `No ${kind.name.toLowerCase()} for locale ${locale}; "${emails[0].name}" is sent instead`,
+        hint: `Add ${tag} to the name of the translated ${kind.name.toLowerCase()}`,
+      });
     }
-  });
+    return checks;
+  }
+
+  /**
+   * Find the transactional email of the kind.
+   *
+   * The email should have the link variable (e.g. `xOptInUrl`) in its data variables
+   * and language code in its name e.g. `#PL` if email is in polish.
+   *
+   * @param language  Preferred language
+   * @returns transactional email object
+   */
+  private async findEmail(kind: EmailKind, language?: string) {
+    const transactionalEmails = await this.cache.get('loops/transactional-emails', this.getTransactionalEmails);
+    const emails = transactionalEmails.filter((email) => email.dataVariables.includes(kind.variable));
+    if (emails.length === 0)
+      throw new Error(`No ${kind.name.toLowerCase()} configured`);
+
+    if (language) {
+      const translated = emails.filter((email) => email.name.includes(`#${language.toUpperCase()}`))
+      if (translated.length > 0) {
+        return translated[0];
+      }
+    }
+    return emails[0];
+  }
 }
 
 /**
- * Get the list of transactional emails
- * 
- * https://loops.so/docs/transactional
- * https://app.loops.so/transactional
+ * Transactional email sent by Carajillo, recognized by the data variable with the control panel link.
  */
-const getTransactionalEmails = unpaginate(loops.getTransactionalEmails.bind(loops));
+interface EmailKind {
+  name: string;
+  variable: string;
+  /** Name of the email in the doctor hint */
+  example: string;
+}
 
+const CONFIRMATION_EMAIL: EmailKind = {name: 'Confirmation email', variable: 'xOptInUrl', example: 'Double Opt-In #EN'};
+const CONTROL_PANEL_EMAIL: EmailKind = {name: 'Control panel email', variable: 'xControlPanelUrl', example: 'Control Panel Link #EN'};
 
 /**
- * Find the transactional email used to confirm subscription.
- * 
- * The double opt-in email should have `xOptInUrl` in its data variables
- * and language code in its name e.g. `#PL` if email is in polish.
- * 
- * @param language  Preferred language
- * @returns transactional email object
+ * Rate limit error with the delay requested by the Retry-After header.
  */
-async function findDoubleOptInEmail(language?: string) {
-  const transactionalEmails = await getTransactionalEmails();
-  const doubleOptInEmails = transactionalEmails.filter((email) => email.dataVariables.includes('xOptInUrl'));
-  if (doubleOptInEmails.length === 0)
-    throw new Error("No confirmation email configured");
-
-  if (language) {
-    const translated = doubleOptInEmails.filter((email) => email.name.includes(`#${language.toUpperCase()}`))
-    if (translated.length > 0) {
-      return translated[0];
+class LoopsRateLimitError extends RateLimitExceededError {
+  constructor(limit: number, remaining: number, readonly retryAfter?: number) {
+    super(limit, remaining);
+  }
+}
+
+/**
+ * Parameters of the SDK query function.
+ */
+interface LoopsQuery {
+  path: string;
+  method?: string;
+  headers?: Record<string, string | undefined>;
+  payload?: object;
+  params?: Record<string, string>;
+}
+
+/**
+ * Query function of the SDK (`LoopsClient._makeQuery`) keeping the Retry-After header of rate limited responses;
+ * the SDK reads only the rate limit headers and drops the response.
+ */
+function queryKeepingRetryAfter(client: LoopsClient) {
+  return async ({path, method = 'GET', headers = {}, payload, params}: LoopsQuery): Promise<unknown> => {
+    const requestHeaders = new Headers({Authorization: `Bearer ${client.apiKey}`, 'Content-Type': 'application/json'});
+    for (const [key, value] of Object.entries(headers)) {
+      if (value !== undefined && value !== '') {
+        requestHeaders.set(key, value);
+      }
+    }
+    const url = new URL(path, client.apiRoot);
+    if (params !== undefined && method === 'GET') {
+      for (const [key, value] of Object.entries(params)) {
+        url.searchParams.append(key, value);
+      }
     }
+    const response = await fetch(url, {method, headers: requestHeaders, body: payload ? JSON.stringify(payload) : undefined});
+    if (response.status === 429) {
+      throw new LoopsRateLimitError(
+        parseInt(response.headers.get('x-ratelimit-limit') || '10', 10),
+        parseInt(response.headers.get('x-ratelimit-remaining') || '10', 10),
+        parseRetryAfter(response.headers.get('retry-after')),
+      );
+    }
+    if (!response.ok) {
+      throw new APIError(response.status, await response.json());
+    }
+    return await response.json();
+  };
+}
+
+/**
+ * Rate limits, server errors and network failures are transient.
+ *
+ * Rate limited calls wait as long as Retry-After asks; a second without it, as Loops limits requests per second.
+ * Error pages of proxies in front of Loops are not JSON and fail to parse.
+ * @see https://loops.so/docs/api-reference/intro#rate-limiting
+ */
+function classifyLoopsFailure(error: unknown): Failure {
+  if (error instanceof RateLimitExceededError) {
+    return {transient: true, retryAfter: error instanceof LoopsRateLimitError ? error.retryAfter ?? 1000 : 1000};
+  } else if (error instanceof APIError) {
+    return {transient: error.statusCode >= 500};
+  } else {
+    return {transient: error instanceof TypeError || error instanceof SyntaxError};
+  }
+}
+
+function getDoubleOptInStatus(contact: LoopsContact): DoubleOptInStatus {
+  const builtInStatus = contact.optInStatus;
+  const customStatus = contact.xOptInStatus as DoubleOptInStatus;
+  const settledStates = new Set<DoubleOptInStatus>(['accepted', 'rejected']);
+  if (settledStates.has(customStatus)) {
+    return customStatus;
+  } else if (settledStates.has(builtInStatus)) {
+    // When custom status is not settled, use the built-in one.
+    // We cannot re-send confirmation emails, if newsletter used
+    // built-in loops double opt-in and contact accepted or rejected subscription.
+    return builtInStatus;
+  } else {
+    return customStatus;
   }
-  return doubleOptInEmails[0];
 }
 
 
@@ -253,4 +424,4 @@ function unpaginate<T>(generator: Generator<T>, perPage = 20) {
     } while(cursor !== null);
     return combined;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,49 @@
+import { randomUUID } from 'crypto';
+
+/**
+ * Email recorded by the development mailbox.
+ */
+export interface MailboxMessage {
+  id: string;
+  /** When the email was sent; ISO 8601 */
+  date: string;
+  recipient: string;
+  /** Preferred language; ISO 639 code */
+  language?: string;
+  /** Name of the template chosen for the email */
+  template: string;
+  /** Control panel link of the email */
+  xOptInUrl: string;
+}
+
+/**
+ * Development mail sink.
+ *
+ * Keeps the most recent outgoing confirmation emails in memory
+ * so they can be browsed at /mailbox instead of landing in a real inbox.
+ */
+export class Mailbox {
+  private messages: MailboxMessage[] = [];
+
+  constructor(private readonly capacity = 100) {}
+
+  deliver(message: Omit<MailboxMessage, 'id' | 'date'>): MailboxMessage {
+    const delivered = {id: randomUUID(), date: new Date().toISOString(), ...message};
+    this.messages.unshift(delivered);
+    this.messages.splice(this.capacity);
+    return delivered;
+  }
+
+  /**
+   * @returns messages, newest first
+   */
+  list(): MailboxMessage[] {
+    return [...this.messages];
+  }
+
+  clear() {
+    this.messages = [];
+  }
+}
+
+export const mailbox = new Mailbox();
@@ -0,0 +1,116 @@
+import { Configuration, loadConfiguration } from './config';
+import { getProvider } from './provider';
+import { Mailbox, mailbox } from './mailbox';
+import { SmtpMailer } from './smtp';
+import type { DoctorCheck } from './doctor';
+
+/**
+ * Sends the double opt-in email and fresh control panel links.
+ *
+ * Email variables available to the templates:
+ *  - `xOptInUrl` — link to the control panel confirming the subscription (confirmation email),
+ *  - `xControlPanelUrl` — link to the control panel of a subscriber (control panel email),
+ *  - `companyName`, `companyAddress`, `companyLogo`.
+ */
+export interface ConfirmationMailer {
+  /**
+   * Name of the template that would be used for the confirmation email.
+   * @param language  Preferred language; ISO 639 code
+   */
+  findConfirmationTemplate(language?: string): Promise<string>;
+
+  /**
+   * Send the double opt-in email with the link to the control panel.
+   * @param language  Preferred language; ISO 639 code
+   */
+  sendConfirmationMail(email: string, confirmUrl: URL, language?: string): Promise<void>;
+
+  /**
+   * Verify the confirmation email is set up for every locale.
+   * @param locales  Locales supported by the control panel
+   */
+  checkConfirmationTemplates(locales: string[]): Promise<DoctorCheck[]>;
+
+  /**
+   * Name of the template that would be used for the control panel email.
+   * @param language  Preferred language; ISO 639 code
+   */
+  findControlPanelTemplate(language?: string): Promise<string>;
+
+  /**
+   * Send a fresh link to the control panel, e.g. after the old one expired or was revoked.
+   * @param language  Preferred language; ISO 639 code
+   */
+  sendControlPanelMail(email: string, controlPanelUrl: URL, language?: string): Promise<void>;
+
+  /**
+   * Verify the control panel email is set up for every locale.
+   * @param locales  Locales supported by the control panel
+   */
+  checkControlPanelTemplates(locales: string[]): Promise<DoctorCheck[]>;
+}
+
+/**
+ * Get the mailer used for confirmation emails.
+ *
+ * By default the mailing provider sends them,
+ * with CONFIRMATION_MAILER=smtp they are rendered from the repository templates and sent over SMTP.
+ * In development they are recorded in the mailbox (env:DEV_MAILBOX).
+ */
+export function getMailer(): ConfirmationMailer {
+  const config = loadConfiguration();
+  const mailer = getConfirmationMailer(config);
+  if (config.mailing.mailbox) {
+    return new MailboxMailer(mailbox, mailer);
+  }
+  return mailer;
+}
+
+let smtpMailer: SmtpMailer | null = null;
+
+function getConfirmationMailer(config: Configuration): ConfirmationMailer {
+  switch (config.mailing.mailer) {
+    case 'provider':
+      return getProvider();
+    case 'smtp':
+      if (smtpMailer === null) {
+        smtpMailer = new SmtpMailer(config.smtp!, config.company);
+      }
+      return smtpMailer;
+  }
+}
+
+/**
+ * Records emails in the mailbox instead of sending them.
+ */
+class MailboxMailer implements ConfirmationMailer {
+  constructor(private readonly mailbox: Mailbox, private readonly mailer: ConfirmationMailer) {}
+
+  findConfirmationTemplate(language?: string): Promise<string> {
+    return this.mailer.findConfirmationTemplate(language);
+  }
+
+  async sendConfirmationMail(email: string, confirmUrl: URL, language?: string): Promise<void> {
+    const template = await this.findConfirmationTemplate(language);
+    const message = this.mailbox.deliver({recipient: email, language, template, xOptInUrl: confirmUrl.toString()});
+    console.info(`Confirmation email ${message.id} delivered to development mailbox: ${email} ${confirmUrl}`);
+  }
+
+  checkConfirmationTemplates(locales: string[]): Promise<DoctorCheck[]> {
+    return this.mailer.checkConfirmationTemplates(locales);
+  }
+
+  findControlPanelTemplate(language?: string): Promise<string> {
+    return this.mailer.findControlPanelTemplate(language);
+  }
+
+  async sendControlPanelMail(email: string, controlPanelUrl: URL, language?: string): Promise<void> {
+    const template = await this.findControlPanelTemplate(language);
+    const message = this.mailbox.deliver({recipient: email, language, template, xOptInUrl: controlPanelUrl.toString()});
+    console.info(`Control panel email ${message.id} delivered to development mailbox: ${email} ${controlPanelUrl}`);
+  }
+
+  checkControlPanelTemplates(locales: string[]): Promise<DoctorCheck[]> {
+    return this.mailer.checkControlPanelTemplates(locales);
+  }
+}
@@ -0,0 +1,318 @@
+import { randomUUID } from 'crypto';
+import { readFile, writeFile } from 'fs/promises';
+import type { MemoryConfiguration } from './config';
+import type { BackfillValue } from './migrations';
+import type { Contact, ContactProperties, ContactPropertyType, CustomProperty, DoubleOptInStatus, MailingList, MailingLists, MailingProvider } from './provider';
+import type { DoctorCheck } from './doctor';
+
+/**
+ * Contact as kept by the store.
+ * Custom properties are flattened next to the built-in ones, the same way Loops returns them.
+ */
+interface StoredContact {
+  id: string;
+  email: string;
+  subscribed: boolean;
+  mailingLists: MailingLists;
+  [property: string]: ContactProperties[string] | MailingLists;
+}
+
+/**
+ * Content of the store file.
+ */
+export interface MemoryStoreData {
+  mailingLists: MailingList[];
+  customProperties: CustomProperty[];
+  contacts: StoredContact[];
+}
+
+/**
+ * Mailing lists available in a fresh store.
+ * Edit the store file to change them.
+ */
+const DEFAULT_MAILING_LISTS: MailingList[] = [
+  { id: 'newsletter', name: 'Newsletter', description: 'Weekly newsletter with updates', isPublic: true },
+  { id: 'announcements', name: 'Announcements', description: 'Product announcements', isPublic: true },
+  { id: 'internal', name: 'Internal', description: null, isPublic: false },
+];
+
+/**
+ * Built-in contact store for local development and tests.
+ *
+ * Mimics the Loops behavior: contacts with custom properties (`xOptInStatus`, `language`, `referer`...),
+ * public and private mailing lists.
+ * Data lives in memory and is written to the JSON file (env:MEMORY_STORE_FILE) when configured.
+ * Emails are not sent - the control panel URL is logged instead.
+ */
+export class MemoryProvider implements MailingProvider {
+  private readonly file?: string;
+  private data: MemoryStoreData | null = null;
+
+  constructor(configuration: MemoryConfiguration) {
+    this.file = configuration.file;
+  }
+
+  async getCustomProperties(): Promise<CustomProperty[]> {
+    const data = await this.load();
+    return data.customProperties.map((prop) => ({...prop}));
+  }
+
+  async createCustomProperty(key: string, type: ContactPropertyType): Promise<void> {
+    const data = await this.load();
+    if (data.customProperties.some((prop) => prop.key === key)) {
+      throw new Error(`Property already exists: ${key}`);
+    }
+    data.customProperties.push({key, type});
+    await this.save();
+  }
+
+  async retypeCustomProperty(key: string, type: ContactPropertyType): Promise<void> {
+    const data = await this.load();
+    const property = data.customProperties.find((prop) => prop.key === key);
+    if (property === undefined) {
+      throw new Error(`Property not found: ${key}`);
+    }
+    property.type = type;
+    for (const contact of data.contacts) {
+      const value = contact[key] as ContactProperties[string] | undefined;
+      if (value !== undefined && value !== null) {
+        contact[key] = convert(value, type);
+      }
+    }
+    await this.save();
+  }
+
+  async backfillProperty(key: string, value: BackfillValue): Promise<void> {
+    const data = await this.load();
+    for (const contact of data.contacts) {
+      if ((contact[key] ?? null) === null) {
+        const contactValue = typeof value === 'function' ? value((await this.findContact(contact.email))!) : value;
+        if (contactValue !== null) {
+          contact[key] = contactValue;
+        }
+      }
+    }
+    await this.save();
+  }
+
+  async getMailingLists(): Promise<MailingList[]> {
+    const data = await this.load();
+    return data.mailingLists.filter((mailingList) => mailingList.isPublic).map((mailingList) => ({...mailingList}));
+  }
+
+  async findContact(email: string): Promise<Contact | null> {
+    const found = await this.find(email);
+    if (found === undefined) {
+      return null;
+    }
+    return {
+      ...found,
+      mailingLists: {...found.mailingLists},
+      optInStatus: (found.xOptInStatus ?? null) as DoubleOptInStatus,
+    } as unknown as Contact;
+  }
+
+  async upsertContact(email: string, properties: ContactProperties, mailingListIds?: string[]): Promise<Contact> {
+    const contact = await this.findContact(email);
+    if (contact === null) {
+      if (mailingListIds === undefined || mailingListIds.length === 0) {
+        mailingListIds = await this.getMailingLists().then(lists => lists.map(list => list.id));
+      }
+      const mailingLists = await this.checkMailingLists(Object.fromEntries(mailingListIds!.map(listId => [listId, true])));
+      const data = await this.load();
+      const created: StoredContact = {
+        ...this.registerProperties(properties),
+        id: randomUUID(),
+        email,
+        subscribed: false,
+        xOptInStatus: 'pending',
+        mailingLists,
+      };
+      data.contacts.push(created);
+      await this.save();
+      return {
+        id: created.id,
+        email,
+        mailingLists: {...mailingLists},
+        subscribed: false,
+        optInStatus: 'pending',
+        ...properties
+      };
+    } else {
+      return contact;
+    }
+  }
+
+  async updateContactProperties(email: string, properties: ContactProperties): Promise<void> {
+    const contact = await this.find(email);
+    if (contact === undefined) {
+      throw new Error(`Contact not found: ${email}`);
+    }
+    Object.assign(contact, this.registerProperties(properties));
+    await this.save();
+  }
+
+  async updateMailingLists(email: string, mailingLists: MailingLists): Promise<void> {
+    if (await this.find(email) === undefined) {
+      throw new Error(`Contact not found: ${email}`);
+    }
+    await this.updateContact(email, {}, mailingLists);
+  }
+
+  async subscribeContact(email: string, mailingLists?: MailingLists): Promise<void> {
+    await this.updateContact(email, {subscribed: true, xOptInStatus: 'accepted'}, mailingLists);
+  }
+
+  async unsubscribeContact(email: string): Promise<void> {
+    await this.updateContact(email, {subscribed: false, xOptInStatus: 'rejected'});
+  }
+
+  async deleteContact(email: string): Promise<void> {
+    const contact = await this.find(email);
+    if (contact === undefined) {
+      throw new Error(`Contact not found: ${email}`);
+    }
+    const data = await this.load();
+    data.contacts.splice(data.contacts.indexOf(contact), 1);
+    await this.save();
+  }
+
+  async findConfirmationTemplate(language?: string): Promise<string> {
+    return 'server log';
+  }
+
+  async sendConfirmationMail(email: string, confirmUrl: URL, language?: string): Promise<void> {
+    console.info(`Confirmation email to ${email} (language: ${language ?? 'default'}): ${confirmUrl}`);
+  }
+
+  async checkConfirmationTemplates(locales: string[]): Promise<DoctorCheck[]> {
+    return [{
+      name: 'Confirmation email',
+      status: 'ok',
+      message: 'Confirmation emails are not sent; the confirmation URL is written to the server log',
+    }];
+  }
+
+  async findControlPanelTemplate(language?: string): Promise<string> {
+    return 'server log';
+  }
+
+  async sendControlPanelMail(email: string, controlPanelUrl: URL, language?: string): Promise<void> {
+    console.info(`Control panel email to ${email} (language: ${language ?? 'default'}): ${controlPanelUrl}`);
+  }
+
+  async checkControlPanelTemplates(locales: string[]): Promise<DoctorCheck[]> {
+    return [{
+      name: 'Control panel email',
+      status: 'ok',
+      message: 'Control panel emails are not sent; the control panel URL is written to the server log',
+    }];
+  }
+
+  /**
+   * Update contact; create it when it does not exist - like Loops update contact endpoint.
+   * @see https://loops.so/docs/api-reference/update-contact
+   */
+  private async updateContact(email: string, properties: ContactProperties, mailingLists?: MailingLists) {
+    const data = await this.load();
+    const checkedMailingLists = mailingLists ? await this.checkMailingLists(mailingLists) : {};
+    let contact = await this.find(email);
+    if (contact === undefined) {
+      contact = {id: randomUUID(), email, subscribed: true, mailingLists: {}} as StoredContact;
+      data.contacts.push(contact);
+    }
+    Object.assign(contact, this.registerProperties(properties));
+    for (const [listId, subscribed] of Object.entries(checkedMailingLists)) {
+      if (subscribed) {
+        contact.mailingLists[listId] = true;
+      } else {
+        delete contact.mailingLists[listId];
+      }
+    }
+    await this.save();
+  }
+
+  private async find(email: string): Promise<StoredContact | undefined> {
+    const data = await this.load();
+    const normalized = email.toLowerCase();
+    return data.contacts.find((contact) => contact.email.toLowerCase() === normalized);
+  }
+
+  /**
+   * Mailing list IDs have to exist, private lists included.
+   */
+  private async checkMailingLists(mailingLists: MailingLists): Promise<MailingLists> {
+    const data = await this.load();
+    for (const listId of Object.keys(mailingLists)) {
+      if (!data.mailingLists.some((list) => list.id === listId)) {
+        throw new Error(`Mailing list not found: ${listId}`);
+      }
+    }
+    return {...mailingLists};
+  }
+
+  /**
+   * Unknown properties are registered as custom properties with type inferred from the value.
+   */
+  private registerProperties(properties: ContactProperties): ContactProperties {
+    const builtIn = new Set(['id', 'email', 'subscribed', 'mailingLists', 'firstName', 'lastName', 'userGroup', 'userId', 'source']);
+    for (const [key, value] of Object.entries(properties)) {
+      if (builtIn.has(key) || value === null || this.data!.customProperties.some((prop) => prop.key === key)) {
+        continue;
+      }
+      const type = typeof value === 'number' ? 'number' : typeof value === 'boolean' ? 'boolean' : 'string';
+      this.data!.customProperties.push({key, type});
+    }
+    return properties;
+  }
+
+  private async load(): Promise<MemoryStoreData> {
+    if (this.data !== null) {
+      return this.data;
+    }
+    if (this.file !== undefined) {
+      try {
+        this.data = JSON.parse(await readFile(this.file, 'utf8')) as MemoryStoreData;
+        return this.data;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          throw error;
+        }
+        console.info(`creating memory store file ${this.file}`);
+      }
+    }
+    this.data = {
+      mailingLists: DEFAULT_MAILING_LISTS.map((list) => ({...list})),
+      customProperties: [],
+      contacts: [],
+    };
+    return this.data;
+  }
+
+  private async save(): Promise<void> {
+    if (this.file !== undefined && this.data !== null) {
+      await writeFile(this.file, JSON.stringify(this.data, null, 2));
+    }
+  }
+}
+
+/**
+ * Convert property value to the new type, the way a spreadsheet would.
+ * Values which cannot be converted are dropped.
+ */
+function convert(value: string | number | boolean, type: ContactPropertyType): string | number | boolean | null {
+  switch (type) {
+    case 'string':
+      return String(value);
+    case 'number': {
+      const converted = Number(value);
+      return Number.isNaN(converted) ? null : converted;
+    }
+    case 'boolean':
+      return typeof value === 'string' ? ['true', '1', 'yes'].includes(value.toLowerCase()) : Boolean(value);
+    case 'date': {
+      const converted = new Date(typeof value === 'boolean' ? NaN : value);
+      return Number.isNaN(converted.getTime()) ? null : converted.toISOString();
+    }
+  }
+}
@@ -0,0 +1,186 @@
+import type { Contact, ContactProperties, ContactPropertyType, CustomProperty, MailingProvider } from './provider';
+import type { KeyValueStore } from './store';
+
+type PropertyValue = string | number | boolean;
+
+/**
+ * Value for contacts created before the property existed.
+ * Either a constant or computed from the contact.
+ */
+export type BackfillValue = PropertyValue | ((contact: Contact) => PropertyValue | null);
+
+export type MigrationOperation =
+  /** Create custom property; no-op when it already exists with the same type. */
+  | { operation: 'add'; key: string; type: ContactPropertyType }
+  /** Change custom property type; creates the property when it does not exist. */
+  | { operation: 'retype'; key: string; type: ContactPropertyType }
+  /** Set the property on contacts which do not have it. */
+  | { operation: 'backfill'; key: string; value: BackfillValue };
+
+export interface Migration {
+  /** Versions start at 1 and increase by one */
+  version: number;
+  description: string;
+  operations: MigrationOperation[];
+}
+
+/**
+ * Applied schema version as recorded in the store.
+ */
+export interface MigrationState {
+  version: number;
+  /** ISO 8601 */
+  appliedAt: string;
+}
+
+export const addProperty = (key: string, type: ContactPropertyType): MigrationOperation => ({operation: 'add', key, type});
+export const retypeProperty = (key: string, type: ContactPropertyType): MigrationOperation => ({operation: 'retype', key, type});
+export const backfillProperty = (key: string, value: BackfillValue): MigrationOperation => ({operation: 'backfill', key, value});
+
+/**
+ * Custom contact property migrations, in order.
+ *
+ * Never edit an applied migration - append a new one instead.
+ * Operations have to be idempotent, a failed migration is retried on the next deploy.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'language and double opt-in status',
+    operations: [
+      // Language preferred by contact; ISO 639 code.
+      addProperty('language', 'string'),
+      // Custom double opt-in status - 'pending', 'accepted' or 'rejected'.
+      addProperty('xOptInStatus', 'string'),
+    ],
+  },
+  {
+    version: 2,
+    description: 'token revocation',
+    operations: [
+      // Generation of tokens in links; tokens of older generations are revoked.
+      addProperty('xTokenGeneration', 'number'),
+    ],
+  },
+];
+
+const STATE_KEY = 'migrations/state';
+
+/**
+ * Custom contact properties after all migrations.
+ */
+export const CUSTOM_PROPERTIES: CustomProperty[] = propertiesAfter(MIGRATIONS);
+
+export function propertiesAfter(migrations: Migration[]): CustomProperty[] {
+  const properties = new Map<string, ContactPropertyType>();
+  for (const {operations} of migrations) {
+    for (const operation of operations) {
+      if (operation.operation !== 'backfill') {
+        properties.set(operation.key, operation.type);
+      }
+    }
+  }
+  return [...properties].map(([key, type]) => ({key, type}));
+}
+
+/**
+ * @returns version of the last applied migration; 0 when none was applied
+ */
+export async function getAppliedVersion(store: KeyValueStore): Promise<number> {
+  const state = await store.get<MigrationState>(STATE_KEY);
+  return state?.version ?? 0;
+}
+
+/**
+ * Apply migrations newer than the version recorded in the store.
+ * Called after every deploy.
+ *
+ * The version is recorded after each migration, so a failed migration stops the run
+ * and is retried next time.
+ * @returns applied version
+ */
+export async function migrate(provider: MailingProvider, store: KeyValueStore, migrations: Migration[] = MIGRATIONS): Promise<number> {
+  checkOrder(migrations);
+  let version = await getAppliedVersion(store);
+  const pending = migrations.filter((migration) => migration.version > version);
+  if (pending.length === 0) {
+    console.info(`schema is up to date (version ${version})`);
+    return version;
+  }
+
+  for (const migration of pending) {
+    console.info(`applying migration ${migration.version}: ${migration.description}`);
+    const properties = await provider.getCustomProperties();
+    for (const operation of migration.operations) {
+      await apply(provider, properties, operation);
+    }
+    version = migration.version;
+    await store.set<MigrationState>(STATE_KEY, {version, appliedAt: new Date().toISOString()});
+  }
+  console.info(`schema migrated to version ${version}`);
+  return version;
+}
+
+async function apply(provider: MailingProvider, properties: CustomProperty[], operation: MigrationOperation) {
+  const existing = properties.find((prop) => prop.key === operation.key);
+  switch (operation.operation) {
+    case 'add':
+      if (existing === undefined) {
+        console.info(`creating ${operation.key} property`);
+        await provider.createCustomProperty(operation.key, operation.type);
+        properties.push({key: operation.key, type: operation.type});
+      } else if (existing.type !== operation.type) {
+        throw new Error(`Property ${operation.key} already exists with type ${existing.type}, expected ${operation.type}`);
+      } else {
+        console.log(`property ${operation.key} already exists`);
+      }
+      break;
+    case 'retype':
+      if (existing === undefined) {
+        console.info(`creating ${operation.key} property`);
+        await provider.createCustomProperty(operation.key, operation.type);
+        properties.push({key: operation.key, type: operation.type});
+      } else if (existing.type !== operation.type) {
+        console.info(`changing ${operation.key} property type from ${existing.type} to ${operation.type}`);
+        await provider.retypeCustomProperty(operation.key, operation.type);
+        existing.type = operation.type;
+      } else {
+        console.log(`property ${operation.key} already has type ${operation.type}`);
+      }
+      break;
+    case 'backfill':
+      console.info(`backfilling ${operation.key} property`);
+      await provider.backfillProperty(operation.key, operation.value);
+      break;
+  }
+}
+
+/**
+ * Values of backfilled properties missing on the contact.
+ *
+ * For providers which cannot list all contacts (Loops),
+ * backfill is applied when the contact is read.
+ */
+export function pendingBackfill(contact: Contact, migrations: Migration[] = MIGRATIONS): ContactProperties {
+  const missing: ContactProperties = {};
+  const properties = contact as unknown as ContactProperties;
+  for (const {operations} of migrations) {
+    for (const operation of operations) {
+      if (operation.operation === 'backfill' && (properties[operation.key] ?? null) === null) {
+        const value = typeof operation.value === 'function' ? operation.value(contact) : operation.value;
+        if (value !== null) {
+          missing[operation.key] = value;
+        }
+      }
+    }
+  }
+  return missing;
+}
+
+function checkOrder(migrations: Migration[]) {
+  migrations.forEach((migration, index) => {
+    if (migration.version !== index + 1) {
+      throw new Error(`Migration versions must start at 1 and increase by one: ${migration.version} at position ${index + 1}`);
+    }
+  });
+}
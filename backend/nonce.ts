@@ -0,0 +1,54 @@
+import type { KeyValueStore } from './store';
+
+/**
+ * Used single-use token, kept until the token expires.
+ */
+export interface NonceRecord {
+  /** ISO 8601 */
+  usedAt: string;
+  /** ISO 8601; the record can be removed afterwards */
+  expiresAt: string;
+}
+
+const PREFIX = 'nonces/';
+
+/**
+ * Mark the token ID (`jti` claim) as used.
+ *
+ * The record is created atomically; of two requests racing with the same token only one succeeds.
+ * @param expiresAt  Token expiration; replays are rejected by the signature check afterwards
+ * @returns false when the token was used before
+ */
+export async function consumeNonce(store: KeyValueStore, jti: string, expiresAt: Date): Promise<boolean> {
+  return await store.create<NonceRecord>(PREFIX + jti, {usedAt: new Date().toISOString(), expiresAt: expiresAt.toISOString()});
+}
+
+/**
+ * @returns true when the token ID was consumed and not released
+ */
+export async function isNonceUsed(store: KeyValueStore, jti: string): Promise<boolean> {
+  return await store.get<NonceRecord>(PREFIX + jti) !== undefined;
+}
+
+/**
+ * Forget the token ID, so it can be used again; e.g. when the request it authorized failed.
+ */
+export async function releaseNonce(store: KeyValueStore, jti: string): Promise<void> {
+  await store.delete(PREFIX + jti);
+}
+
+/**
+ * Remove records of expired tokens.
+ * @returns number of removed records
+ */
+export async function purgeExpiredNonces(store: KeyValueStore, now: Date = new Date()): Promise<number> {
+  let removed = 0;
+  for (const key of await store.list(PREFIX)) {
+    const record = await store.get<NonceRecord>(key);
+    if (record === undefined || new Date(record.expiresAt).getTime() <= now.getTime()) {
+      await store.delete(key);
+      removed++;
+    }
+  }
+  return removed;
+}
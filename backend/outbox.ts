@@ -0,0 +1,173 @@
+import { randomUUID } from 'crypto';
+import { HttpError } from './error';
+import type { KeyValueStore } from './store';
+
+/**
+ * Request kept in the store until it is delivered to the mailing provider.
+ */
+export interface OutboxEntry<T> {
+  payload: T;
+  /** ISO 8601 */
+  createdAt: string;
+  /** Failed delivery attempts, including the one before the entry was queued */
+  attempts: number;
+  /** ISO 8601; the entry is not retried earlier */
+  nextAttemptAt: string;
+  lastError?: string;
+}
+
+export interface OutboxResult {
+  delivered: number;
+  /** Failed again, retried later */
+  postponed: number;
+  /** Rejected for good, e.g. the contact rejected the subscription meanwhile */
+  dropped: number;
+  /** Failed too many times, moved to the dead letter queue */
+  deadLettered: number;
+}
+
+/** Key prefix of queued subscriptions; other queues pass their own */
+const PREFIX = 'outbox/';
+
+/** Delay after the first failed attempt; doubled after each next one */
+const INITIAL_RETRY_DELAY = 60 * 1000;
+const MAX_RETRY_DELAY = 6 * 60 * 60 * 1000;
+
+/** Entries processed in a single run, so the scheduled function ends before its timeout */
+const BATCH_SIZE = 20;
+
+/** Attempts before an entry is given up, about 3 days with the backoff */
+export const MAX_ATTEMPTS = 20;
+
+/** Key prefix of entries given up, followed by the prefix of their queue */
+export const DEAD_LETTER_PREFIX = 'dead-letter/';
+
+/** Reasons of 503 Service Unavailable raised by the resilience layer (see resilience.ts) */
+const UNAVAILABLE_REASONS = ['service-unavailable', 'circuit-open'];
+
+/** Codes of network failures: Node.js system errors and nodemailer connection errors */
+const NETWORK_ERROR_CODES = ['ECONNREFUSED', 'ECONNRESET', 'ETIMEDOUT', 'ENOTFOUND', 'EAI_AGAIN', 'EPIPE', 'ECONNECTION', 'ESOCKET', 'EDNS'];
+
+/**
+ * Delay before the next delivery attempt: exponential backoff capped at 6 hours.
+ */
+export function retryDelay(attempts: number): number {
+  return Math.min(INITIAL_RETRY_DELAY * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY);
+}
+
+/**
+ * Failures worth retrying: the mailing provider is down, slow or rate limiting.
+ *
+ * Calls of Loops report them as 503 Service Unavailable (see resilience.ts); network failures,
+ * timeouts and temporary SMTP errors (4xx) are transient as well.
+ * Anything else would fail again: other errors raised by the service itself, like a missing secret,
+ * Loops API client errors and configuration errors, e.g. an unknown mailing list.
+ */
+export function isTransientError(error: unknown): boolean {
+  if (error instanceof HttpError) {
+    return error.statusCode === 503 && error.reason !== undefined && UNAVAILABLE_REASONS.includes(error.reason);
+  }
+  if (!(error instanceof Error)) {
+    return false;
+  }
+  if (error instanceof TypeError) {
+    // fetch() fails with TypeError when the request does not reach the server.
+    return error.message === 'fetch failed';
+  }
+  if (['AbortError', 'TimeoutError', 'FetchError'].includes(error.name)) {
+    return true;
+  }
+  const {code, responseCode} = error as Error & {code?: string, responseCode?: number};
+  return (code !== undefined && NETWORK_ERROR_CODES.includes(code))
+    || (responseCode !== undefined && responseCode >= 400 && responseCode < 500);
+}
+
+/**
+ * Keep a request after its first delivery attempt failed.
+ * @param prefix  Key prefix of the queue
+ * @returns key of the entry
+ */
+export async function enqueue<T>(store: KeyValueStore, payload: T, error: unknown, now: Date = new Date(), prefix: string = PREFIX): Promise<string> {
+  const key = prefix + randomUUID();
+  await store.set<OutboxEntry<T>>(key, {
+    payload,
+    createdAt: now.toISOString(),
+    attempts: 1,
+    nextAttemptAt: new Date(now.getTime() + retryDelay(1)).toISOString(),
+    lastError: errorMessage(error),
+  });
+  return key;
+}
+
+/**
+ * Retry delivery of the entries due at the moment, oldest first.
+ *
+ * Delivered entries and the ones failing with a permanent error are removed,
+ * others are postponed with a longer delay. Entries failing MAX_ATTEMPTS times are moved
+ * to the dead letter queue (`dead-letter/<prefix>`) for manual inspection.
+ * Runs of the scheduled function must not overlap, or an entry may be delivered twice.
+ */
+export async function processOutbox<T>(store: KeyValueStore, deliver: (payload: T) => Promise<unknown>, now: Date = new Date(), prefix: string = PREFIX): Promise<OutboxResult> {
+  const result: OutboxResult = {delivered: 0, postponed: 0, dropped: 0, deadLettered: 0};
+  const due: [string, OutboxEntry<T>][] = [];
+  for (const key of await store.list(prefix)) {
+    const entry = await store.get<OutboxEntry<T>>(key);
+    if (entry !== undefined && new Date(entry.nextAttemptAt).getTime() <= now.getTime()) {
+      due.push([key, entry]);
+    }
+  }
+  due.sort(([, a], [, b]) => a.createdAt.localeCompare(b.createdAt));
+
+  for (const [key, entry] of due.slice(0, BATCH_SIZE)) {
+    try {
+      await deliver(entry.payload);
+      await store.delete(key);
+      result.delivered++;
+    } catch (error) {
+      if (isTransientError(error)) {
+        const attempts = entry.attempts + 1;
+        const failed: OutboxEntry<T> = {
+          ...entry,
+          attempts,
+          nextAttemptAt: new Date(now.getTime() + retryDelay(attempts)).toISOString(),
+          lastError: errorMessage(error),
+        };
+        if (attempts >= MAX_ATTEMPTS) {
+          console.error(`outbox: giving up ${key} after ${attempts} attempts`, error);
+          await store.set<OutboxEntry<T>>(DEAD_LETTER_PREFIX + key, failed);
+          await store.delete(key);
+          result.deadLettered++;
+          continue;
+        }
+        console.warn(`outbox: attempt ${attempts} of ${key} failed`, error);
+        await store.set<OutboxEntry<T>>(key, failed);
+        result.postponed++;
+      } else {
+        console.warn(`outbox: dropping ${key}`, error);
+        await store.delete(key);
+        result.dropped++;
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * Remove queued entries matching the predicate, e.g. requests of a deleted contact.
+ * @returns number of removed entries
+ */
+export async function removeEntries<T>(store: KeyValueStore, match: (payload: T) => boolean, prefix: string = PREFIX): Promise<number> {
+  let removed = 0;
+  for (const key of await store.list(prefix)) {
+    const entry = await store.get<OutboxEntry<T>>(key);
+    if (entry !== undefined && match(entry.payload)) {
+      await store.delete(key);
+      removed++;
+    }
+  }
+  return removed;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
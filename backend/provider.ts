@@ -0,0 +1,186 @@
+import { Configuration, loadConfiguration } from './config';
+import { getCache } from './cache';
+import { LoopsProvider } from './loops';
+import { MemoryProvider } from './memory';
+import type { ConfirmationMailer } from './mailer';
+import type { BackfillValue } from './migrations';
+
+export type MailingLists = Record<string, boolean>;
+export type ContactProperties = Record<string, string | number | boolean | null>;
+export type DoubleOptInStatus = "pending" | "accepted" | "rejected" | null;
+/**
+ * Type of custom contact property.
+ * @see https://loops.so/docs/contacts/properties#custom-contact-properties
+ */
+export type ContactPropertyType = "string" | "number" | "boolean" | "date";
+
+/**
+ * Properties managed by the service; never taken from forms.
+ * Custom properties prefixed with `x` and an upper case letter (`xOptInStatus`) are reserved too.
+ */
+const RESERVED_PROPERTIES = new Set(['id', 'email', 'subscribed', 'mailingLists', 'optInStatus', 'userId']);
+
+export function isReservedProperty(key: string): boolean {
+  return RESERVED_PROPERTIES.has(key) || /^x[A-Z]/.test(key);
+}
+
+export interface CustomProperty {
+  key: string;
+  type: ContactPropertyType;
+}
+
+export interface Contact {
+  id: string;
+  email: string;
+  subscribed: boolean;
+  /**
+   * Mailing lists the contact is subscribed to.
+   * @see https://loops.so/docs/contacts/mailing-lists
+   */
+  mailingLists: MailingLists;
+  /**
+   * The contact's double opt-in status.
+   * Custom `xOptInStatus` property.
+   * @see See README.md for details
+   * @see https://loops.so/docs/contacts/double-opt-in
+   */
+  optInStatus: DoubleOptInStatus;
+  /**
+   * Language preferred by the contact; ISO 639 code.
+   * Custom `language` property.
+   */
+  language?: string;
+  /**
+   * The URL of the page from which the subscription request was made.
+   */
+  referer?: string;
+  /**
+   * Tokens issued with an older generation are revoked.
+   * Custom `xTokenGeneration` property.
+   */
+  xTokenGeneration?: number;
+}
+
+export interface MailingList {
+  /**
+   * The ID of the list.
+   */
+  id: string;
+
+  /**
+   * The name of the list.
+   */
+  name: string;
+
+  /**
+   * The list's description.
+   */
+  description: string | null;
+
+  /**
+   * Whether the list is public (true) or private (false).
+   */
+  isPublic: boolean;
+}
+
+/**
+ * Mailing list backend.
+ *
+ * Keeps contacts with their properties and mailing lists
+ * and delivers the double opt-in confirmation email.
+ * The subscription flow and the control panel only talk to this interface.
+ */
+export interface MailingProvider extends ConfirmationMailer {
+  /**
+   * Get custom contact properties defined in the account.
+   */
+  getCustomProperties(): Promise<CustomProperty[]>;
+
+  /**
+   * Schema migration - create custom contact property.
+   * @see migrate
+   */
+  createCustomProperty(key: string, type: ContactPropertyType): Promise<void>;
+
+  /**
+   * Schema migration - change custom contact property type, converting existing values.
+   * Throws when the provider does not support it.
+   */
+  retypeCustomProperty(key: string, type: ContactPropertyType): Promise<void>;
+
+  /**
+   * Schema migration - set the property on contacts which do not have it.
+   * Providers which cannot list all contacts apply it when the contact is read (see `pendingBackfill`).
+   */
+  backfillProperty(key: string, value: BackfillValue): Promise<void>;
+
+  /**
+   * Get publicly available mailing lists.
+   */
+  getMailingLists(): Promise<MailingList[]>;
+
+  /**
+   * Find contact by email.
+   * @returns contact or null if it does not exist
+   */
+  findContact(email: string): Promise<Contact | null>;
+
+  /**
+   * Find contact or create a pending one.
+   * Properties of an existing contact are not changed (see `mergeProperties`).
+   * @param email           Contact email address
+   * @param properties      Extra contact properties (firstName, lastName, userGroup etc.)
+   * @param mailingListIds  Initial mailing list IDs (optional, defaults to all publicly available mailing lists)
+   */
+  upsertContact(email: string, properties: ContactProperties, mailingListIds?: string[]): Promise<Contact>;
+
+  /**
+   * Update properties of an existing contact.
+   * Does not change subscription nor mailing lists.
+   */
+  updateContactProperties(email: string, properties: ContactProperties): Promise<void>;
+
+  /**
+   * Add an existing contact to or remove it from mailing lists.
+   * Does not change subscription nor properties.
+   */
+  updateMailingLists(email: string, mailingLists: MailingLists): Promise<void>;
+
+  /**
+   * Mark contact as subscribed with accepted double opt-in.
+   */
+  subscribeContact(email: string, mailingLists?: MailingLists): Promise<void>;
+
+  /**
+   * Mark contact as unsubscribed with rejected double opt-in.
+   */
+  unsubscribeContact(email: string): Promise<void>;
+
+  /**
+   * Delete the contact with all its properties.
+   */
+  deleteContact(email: string): Promise<void>;
+}
+
+let provider: MailingProvider | null = null;
+
+/**
+ * Get the mailing provider selected by the configuration (env:MAILING_PROVIDER).
+ */
+export function getProvider(): MailingProvider {
+  if (provider === null) {
+    provider = createProvider(loadConfiguration());
+  }
+  return provider;
+}
+
+export function createProvider(config: Configuration): MailingProvider {
+  switch (config.mailing.provider) {
+    case 'loops':
+      return new LoopsProvider(config.loopsSo!, getCache());
+    case 'memory':
+      return new MemoryProvider(config.memory!);
+    default:
+      throw new Error(`unsupported mailing provider: ${config.mailing.provider}`);
+  }
+}
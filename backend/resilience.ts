@@ -0,0 +1,210 @@
+import { HttpError } from './error';
+
+/**
+ * Limits of calls to an external service.
+ */
+export interface ResiliencePolicy {
+  /** Time limit of a single attempt, ms */
+  timeout: number;
+  /** Extra attempts of idempotent calls after a transient failure */
+  retries: number;
+  /** Upper bound of the first retry delay, ms; doubled after each attempt */
+  retryDelay: number;
+  /** Longest delay worth waiting for, ms; a longer Retry-After fails the call at once */
+  maxRetryDelay: number;
+  /** Consecutive transient failures opening the circuit */
+  failureThreshold: number;
+  /** Time the open circuit fails calls without trying, ms */
+  resetTimeout: number;
+}
+
+export const DEFAULT_POLICY: ResiliencePolicy = {
+  timeout: 5000,
+  retries: 2,
+  retryDelay: 200,
+  maxRetryDelay: 3000,
+  failureThreshold: 5,
+  resetTimeout: 30_000,
+};
+
+/**
+ * How to treat a failed call.
+ */
+export interface Failure {
+  /** The service is down, slow or rate limiting; the same call may succeed later */
+  transient: boolean;
+  /** Delay requested by the service (Retry-After), ms */
+  retryAfter?: number;
+}
+
+export type FailureClassifier = (error: unknown) => Failure;
+
+export class TimeoutError extends Error {
+  constructor(timeout: number) {
+    super(`Timed out after ${timeout} ms`);
+    this.name = 'TimeoutError';
+  }
+}
+
+/**
+ * Fails calls fast after repeated transient failures, so an outage of the service
+ * does not hold every request until its timeout.
+ *
+ * After the reset timeout the circuit is half-open: a single trial call is let through
+ * while the others keep failing fast; its success closes the circuit and its failure opens it again.
+ * State is kept in memory, separately in every function instance.
+ */
+export class CircuitBreaker {
+  private failures = 0;
+  private openedAt: number | null = null;
+  // A trial call of the half-open circuit is in progress.
+  private probing = false;
+
+  constructor(
+    private readonly service: string,
+    private readonly policy: Pick<ResiliencePolicy, 'failureThreshold' | 'resetTimeout'>,
+    private readonly now: () => number = Date.now,
+  ) {}
+
+  get state(): 'closed' | 'open' | 'half-open' {
+    if (this.openedAt === null) {
+      return 'closed';
+    }
+    return this.now() - this.openedAt < this.policy.resetTimeout ? 'open' : 'half-open';
+  }
+
+  /**
+   * Throws 503 Service Unavailable when the circuit is open
+   * or half-open with the trial call in progress.
+   * The caller must report the outcome with success() or failure().
+   */
+  check() {
+    const state = this.state;
+    if (state === 'half-open' && !this.probing) {
+      this.probing = true;
+      return;
+    }
+    if (state !== 'closed') {
+      throw new HttpError({
+        statusCode: 503,
+        reason: 'circuit-open',
+        message: 'Service temporarily unavailable',
+        details: `${this.service} failed ${this.failures} times in a row`,
+      });
+    }
+  }
+
+  success() {
+    this.failures = 0;
+    this.openedAt = null;
+    this.probing = false;
+  }
+
+  failure() {
+    this.probing = false;
+    this.failures++;
+    if (this.state === 'half-open' || this.failures >= this.policy.failureThreshold) {
+      this.openedAt = this.now();
+    }
+  }
+}
+
+/**
+ * Timeouts, retries with jitter and a circuit breaker around calls to an external service.
+ *
+ * Only transient failures are retried and counted by the circuit breaker;
+ * other errors are passed to the caller untouched.
+ * When retries are exhausted the call fails with 503 Service Unavailable.
+ */
+export class Resilience {
+  readonly breaker: CircuitBreaker;
+
+  constructor(
+    private readonly service: string,
+    private readonly classify: FailureClassifier,
+    private readonly policy: ResiliencePolicy = DEFAULT_POLICY,
+  ) {
+    this.breaker = new CircuitBreaker(service, policy);
+  }
+
+  /**
+   * @param operation   Call of the service
+   * @param idempotent  Whether the call may be repeated; otherwise it is attempted once
+   */
+  async call<T>(operation: () => Promise<T>, {idempotent = true}: {idempotent?: boolean} = {}): Promise<T> {
+    const attempts = idempotent ? this.policy.retries + 1 : 1;
+    for (let attempt = 1; ; attempt++) {
+      this.breaker.check();
+      try {
+        const result = await withTimeout(operation(), this.policy.timeout);
+        this.breaker.success();
+        return result;
+      } catch (error) {
+        const failure = error instanceof TimeoutError ? {transient: true} : this.classify(error);
+        if (!failure.transient) {
+          // The service responded, e.g. with a client error.
+          this.breaker.success();
+          throw error;
+        }
+        this.breaker.failure();
+        const delay = this.retryDelay(attempt, failure.retryAfter);
+        if (attempt >= attempts || delay > this.policy.maxRetryDelay) {
+          throw new HttpError({
+            statusCode: 503,
+            reason: 'service-unavailable',
+            message: 'Service temporarily unavailable',
+            details: `${this.service} failed ${attempt} times: ${error instanceof Error ? error.message : error}`,
+          });
+        }
+        console.warn(`${this.service}: attempt ${attempt} failed, retrying in ${delay} ms`, error);
+        await sleep(delay);
+      }
+    }
+  }
+
+  /**
+   * Full jitter: a random delay up to the exponential bound, but not shorter than Retry-After.
+   * @see https://aws.amazon.com/blogs/architecture/exponential-backoff-and-jitter/
+   */
+  private retryDelay(attempt: number, retryAfter?: number): number {
+    const jitter = Math.round(Math.random() * this.policy.retryDelay * 2 ** (attempt - 1));
+    return retryAfter === undefined ? Math.min(jitter, this.policy.maxRetryDelay) : retryAfter + Math.min(jitter, this.policy.retryDelay);
+  }
+}
+
+/**
+ * Delay requested by the `Retry-After` header, ms; seconds or an HTTP date.
+ * @returns undefined when the header is missing or invalid
+ */
+export function parseRetryAfter(value: string | null, now: number = Date.now()): number | undefined {
+  if (value === null || value.trim() === '') {
+    return undefined;
+  }
+  if (/^\d+$/.test(value.trim())) {
+    return Number(value) * 1000;
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(date - now, 0);
+}
+
+/**
+ * Reject with TimeoutError when the promise does not settle in time.
+ * The operation itself is not cancelled.
+ */
+export async function withTimeout<T>(promise: Promise<T>, timeout: number): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+  try {
+    return await Promise.race([
+      promise,
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new TimeoutError(timeout)), timeout);
+      }),
+    ]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
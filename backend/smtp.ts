@@ -0,0 +1,180 @@
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { createTransport, Transporter } from 'nodemailer';
+import type { CompanyConfiguration, SmtpConfiguration } from './config';
+import type { ConfirmationMailer } from './mailer';
+import type { DoctorCheck } from './doctor';
+
+/**
+ * Language of the template used when there is none in the preferred language.
+ */
+const DEFAULT_LANGUAGE = 'en';
+
+type TemplateVariables = Record<'companyName' | 'companyAddress' | 'companyLogo', string> & Partial<Record<'xOptInUrl' | 'xControlPanelUrl', string>>;
+
+interface EmailTemplate {
+  /** Template name - `<kind>/<language>`, e.g. `confirmation/en` */
+  name: string;
+  html: string;
+  text: string;
+}
+
+/**
+ * Email sent by Carajillo: template name prefix and the variable with the control panel link.
+ */
+interface EmailKind {
+  prefix: string;
+  variable: 'xOptInUrl' | 'xControlPanelUrl';
+  /** Email in error messages */
+  description: string;
+}
+
+const CONFIRMATION_EMAIL: EmailKind = {prefix: 'confirmation', variable: 'xOptInUrl', description: 'confirmation email'};
+const CONTROL_PANEL_EMAIL: EmailKind = {prefix: 'control-panel', variable: 'xControlPanelUrl', description: 'control panel email'};
+
+/**
+ * Sends the confirmation and control panel emails over SMTP.
+ *
+ * The emails are rendered from `<language>.html` and `<language>.txt` templates kept in the repository
+ * (env:SMTP_TEMPLATES, SMTP_CONTROL_PANEL_TEMPLATES), so the copy is reviewed like any other change.
+ * Templates use `{{variable}}` placeholders with the same variables as the Loops transactional emails.
+ * Subject is taken from the `<title>` of the HTML template.
+ */
+export class SmtpMailer implements ConfirmationMailer {
+  private readonly transporter: Transporter;
+
+  constructor(private readonly configuration: SmtpConfiguration, private readonly company: CompanyConfiguration) {
+    this.transporter = createTransport(configuration.url);
+  }
+
+  async findConfirmationTemplate(language?: string): Promise<string> {
+    const template = await this.loadTemplate(CONFIRMATION_EMAIL, language);
+    return template.name;
+  }
+
+  async sendConfirmationMail(email: string, confirmUrl: URL, language?: string): Promise<void> {
+    await this.send(CONFIRMATION_EMAIL, email, confirmUrl, language);
+  }
+
+  /**
+   * Verify there are templates for every locale and they contain the confirmation link.
+   */
+  async checkConfirmationTemplates(locales: string[]): Promise<DoctorCheck[]> {
+    return await this.checkTemplates(CONFIRMATION_EMAIL, 'Confirmation template', locales);
+  }
+
+  async findControlPanelTemplate(language?: string): Promise<string> {
+    const template = await this.loadTemplate(CONTROL_PANEL_EMAIL, language);
+    return template.name;
+  }
+
+  async sendControlPanelMail(email: string, controlPanelUrl: URL, language?: string): Promise<void> {
+    await this.send(CONTROL_PANEL_EMAIL, email, controlPanelUrl, language);
+  }
+
+  /**
+   * Verify there are templates for every locale and they contain the control panel link.
+   */
+  async checkControlPanelTemplates(locales: string[]): Promise<DoctorCheck[]> {
+    return await this.checkTemplates(CONTROL_PANEL_EMAIL, 'Control panel template', locales);
+  }
+
+  private async send(kind: EmailKind, email: string, url: URL, language?: string): Promise<void> {
+    const template = await this.loadTemplate(kind, language);
+    const variables: TemplateVariables = {
+      companyName: this.company.name,
+      companyAddress: this.company.address,
+      companyLogo: this.company.logo ?? '',
+      [kind.variable]: url.toString(),
+    };
+    const html = render(template.html, variables, escapeHtml);
+    console.log(`Sending ${template.name} to ${email} with ${url}`);
+    await this.transporter.sendMail({
+      from: this.configuration.from,
+      to: email,
+      subject: findTitle(html) ?? this.company.name,
+      html,
+      text: render(template.text, variables, (value) => value),
+    });
+  }
+
+  private async checkTemplates(kind: EmailKind, checkName: string, locales: string[]): Promise<DoctorCheck[]> {
+    const checks: DoctorCheck[] = [];
+    const link = new RegExp(`\\{\\{\\s*${kind.variable}\\s*\\}\\}`);
+    for (const locale of locales) {
+      const name = `${checkName} ${locale}`;
+      let template: EmailTemplate;
+      try {
+        template = await this.loadTemplate(kind, locale);
+      } catch (error) {
+        checks.push({name, status: 'error', message: (error as Error).message, hint: `Add ${DEFAULT_LANGUAGE}.html and ${DEFAULT_LANGUAGE}.txt templates`});
+        continue;
+      }
+      if (template.name !== `${kind.prefix}/${locale.toLowerCase().split(/[-_]/)[0]}`) {
+        checks.push({name, status: 'warning', message: `No template for locale ${locale}; ${template.name} is sent instead`, hint: `Add ${locale}.html and ${locale}.txt to ${this.directory(kind)}`});
+      } else if (!link.test(template.html) || !link.test(template.text)) {
+        checks.push({name, status: 'error', message: `${template.name} does not contain the {{${kind.variable}}} link`, hint: `Add the {{${kind.variable}}} link to both HTML and text templates`});
+      } else {
+        checks.push({name, status: 'ok', message: template.name});
+      }
+    }
+    return checks;
+  }
+
+  private directory(kind: EmailKind): string {
+    return kind === CONFIRMATION_EMAIL ? this.configuration.templates : this.configuration.controlPanelTemplates;
+  }
+
+  /**
+   * Load templates in the preferred language, fall back to the default language.
+   * @param language  Preferred language; ISO 639 code
+   */
+  private async loadTemplate(kind: EmailKind, language?: string): Promise<EmailTemplate> {
+    const preferred = language?.toLowerCase().split(/[-_]/)[0];
+    const candidates = preferred && /^[a-z]{2,3}$/.test(preferred) ? [preferred, DEFAULT_LANGUAGE] : [DEFAULT_LANGUAGE];
+    for (const candidate of candidates) {
+      const base = path.resolve(this.directory(kind), candidate);
+      try {
+        const [html, text] = await Promise.all([readFile(`${base}.html`, 'utf8'), readFile(`${base}.txt`, 'utf8')]);
+        return {name: `${kind.prefix}/${candidate}`, html, text};
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          throw error;
+        }
+      }
+    }
+    throw new Error(`No ${kind.description} template in ${this.directory(kind)}`);
+  }
+}
+
+/**
+ * Replace `{{variable}}` placeholders; unknown variables are left untouched.
+ */
+export function render(template: string, variables: TemplateVariables, escape: (value: string) => string): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, name: string) => {
+    const value = variables[name as keyof TemplateVariables];
+    return value !== undefined ? escape(value) : placeholder;
+  });
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function findTitle(html: string): string | undefined {
+  const title = html.match(/<title>([^<]*)<\/title>/i)?.[1].trim();
+  if (!title) {
+    return undefined;
+  }
+  return title
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&');
+}
@@ -0,0 +1,238 @@
+import { open, readFile, unlink, writeFile } from 'fs/promises';
+import { connectLambda, getStore as getBlobStore, Store as BlobStore } from '@netlify/blobs';
+import { loadConfiguration, StoreConfiguration } from './config';
+
+/**
+ * Durable key-value store for server state.
+ *
+ * The service itself is stateless (see README.md);
+ * the store keeps only bookkeeping like applied migrations and used single-use tokens.
+ * Values are JSON serializable.
+ */
+export interface KeyValueStore {
+  /**
+   * @returns stored value or undefined if the key does not exist
+   */
+  get<T>(key: string): Promise<T | undefined>;
+
+  set<T>(key: string, value: T): Promise<void>;
+
+  /**
+   * Store the value unless the key exists, atomically.
+   * @returns false when the key exists; the stored value is kept
+   */
+  create<T>(key: string, value: T): Promise<boolean>;
+
+  delete(key: string): Promise<void>;
+
+  /**
+   * @returns keys starting with the prefix
+   */
+  list(prefix?: string): Promise<string[]>;
+}
+
+/**
+ * Name of the Netlify Blobs store.
+ */
+const BLOB_STORE_NAME = 'carajillo';
+
+let store: KeyValueStore | null = null;
+
+/**
+ * Get the store selected by the configuration (env:STORE).
+ */
+export function getStore(): KeyValueStore {
+  if (store === null) {
+    store = createStore(loadConfiguration().store);
+  }
+  return store;
+}
+
+export function createStore(config: StoreConfiguration): KeyValueStore {
+  switch (config.provider) {
+    case 'netlify':
+      return new NetlifyBlobsStore();
+    case 'file':
+      return new FileStore(config.file);
+    case 'memory':
+      return new MemoryStore();
+    default:
+      throw new Error(`unsupported store: ${config.provider}`);
+  }
+}
+
+/**
+ * Pass Netlify Blobs credentials from the function event.
+ * Needed by functions in Lambda compatibility mode (`handler(event, context)`).
+ * @see https://docs.netlify.com/build/data-and-storage/netlify-blobs/#lambda-compatibility-mode
+ */
+export function connectStore(event: object) {
+  if ('blobs' in event && typeof event.blobs === 'string' && 'headers' in event) {
+    connectLambda(event as Parameters<typeof connectLambda>[0]);
+  }
+}
+
+/**
+ * Lost when the process exits; for tests and local development.
+ */
+export class MemoryStore implements KeyValueStore {
+  private readonly values = new Map<string, string>();
+
+  async get<T>(key: string): Promise<T | undefined> {
+    const value = this.values.get(key);
+    return value === undefined ? undefined : JSON.parse(value) as T;
+  }
+
+  async set<T>(key: string, value: T): Promise<void> {
+    this.values.set(key, JSON.stringify(value));
+  }
+
+  async create<T>(key: string, value: T): Promise<boolean> {
+    if (this.values.has(key)) {
+      return false;
+    }
+    this.values.set(key, JSON.stringify(value));
+    return true;
+  }
+
+  async delete(key: string): Promise<void> {
+    this.values.delete(key);
+  }
+
+  async list(prefix = ''): Promise<string[]> {
+    return [...this.values.keys()].filter((key) => key.startsWith(prefix));
+  }
+}
+
+/**
+ * Attempts to take the lock of the file store, 50 ms apart.
+ */
+const LOCK_ATTEMPTS = 100;
+
+/**
+ * All values in a single JSON file; for local development outside of `netlify dev`.
+ * Writes hold a lock file (`<file>.lock`), so processes sharing the file do not overwrite each other.
+ */
+export class FileStore implements KeyValueStore {
+  constructor(private readonly file: string) {}
+
+  async get<T>(key: string): Promise<T | undefined> {
+    const values = await this.load();
+    return values[key] as T | undefined;
+  }
+
+  async set<T>(key: string, value: T): Promise<void> {
+    await this.locked(async () => {
+      const values = await this.load();
+      values[key] = value;
+      await this.save(values);
+    });
+  }
+
+  async create<T>(key: string, value: T): Promise<boolean> {
+    return await this.locked(async () => {
+      const values = await this.load();
+      if (key in values) {
+        return false;
+      }
+      values[key] = value;
+      await this.save(values);
+      return true;
+    });
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.locked(async () => {
+      const values = await this.load();
+      delete values[key];
+      await this.save(values);
+    });
+  }
+
+  async list(prefix = ''): Promise<string[]> {
+    const values = await this.load();
+    return Object.keys(values).filter((key) => key.startsWith(prefix));
+  }
+
+  private async load(): Promise<Record<string, unknown>> {
+    try {
+      return JSON.parse(await readFile(this.file, 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+      return {};
+    }
+  }
+
+  private async save(values: Record<string, unknown>) {
+    await writeFile(this.file, JSON.stringify(values, null, 2));
+  }
+
+  /**
+   * Run the read-modify-write holding the lock file, created exclusively (`wx`).
+   */
+  private async locked<T>(write: () => Promise<T>): Promise<T> {
+    const lock = `${this.file}.lock`;
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await (await open(lock, 'wx')).close();
+        break;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+          throw error;
+        }
+        if (attempt === LOCK_ATTEMPTS) {
+          throw new Error(`Store file is locked; remove ${lock} if no process is using it`);
+        }
+        await new Promise((resolve) => setTimeout(resolve, 50));
+      }
+    }
+    try {
+      return await write();
+    } finally {
+      await unlink(lock);
+    }
+  }
+}
+
+/**
+ * Site-wide Netlify Blobs store; works in deployed functions and in `netlify dev`.
+ * @see https://docs.netlify.com/build/data-and-storage/netlify-blobs/
+ */
+export class NetlifyBlobsStore implements KeyValueStore {
+  private blobs: BlobStore | null = null;
+
+  async get<T>(key: string): Promise<T | undefined> {
+    const value = await this.store().get(key, {type: 'json'});
+    return value === null ? undefined : value as T;
+  }
+
+  async set<T>(key: string, value: T): Promise<void> {
+    await this.store().setJSON(key, value);
+  }
+
+  async create<T>(key: string, value: T): Promise<boolean> {
+    const {modified} = await this.store().setJSON(key, value, {onlyIfNew: true});
+    return modified;
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.store().delete(key);
+  }
+
+  async list(prefix?: string): Promise<string[]> {
+    const {blobs} = await this.store().list({prefix});
+    return blobs.map((blob) => blob.key);
+  }
+
+  /**
+   * Created on first use, after the function connected the Netlify Blobs context.
+   */
+  private store(): BlobStore {
+    if (this.blobs === null) {
+      this.blobs = getBlobStore({name: BLOB_STORE_NAME, consistency: 'strong'});
+    }
+    return this.blobs;
+  }
+}
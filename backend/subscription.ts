@@ -1,8 +1,22 @@
 import { Request } from 'express';
 import { HttpError } from './error';
-import { verifyCaptcha } from './captcha';
-import { findContact, upsertContact, sendConfirmationMail, subscribeContact, unsubscribeContact, getMailingLists } from './loops';
-import { createToken } from './jwt';
+import { checkCaptcha } from './captcha';
+import type { CaptchaVerification } from './captcha';
+import { getProvider, isReservedProperty } from './provider';
+import type { Contact, ContactProperties } from './provider';
+import { loadConfiguration, MergePolicy } from './config';
+import type { ConfirmationMode, WebhookEventType } from './config';
+import { getMailer } from './mailer';
+import { createToken, revokeAddressTokens, revokeTokens, TokenScope } from './jwt';
+import type { ListLink } from './jwt';
+import { parseFormProperties } from './form';
+import type { FormValue } from './form';
+import { enqueue, isTransientError, processOutbox, removeEntries } from './outbox';
+import { getStore } from './store';
+import { emitEvent, isEventEnabled } from './webhooks';
+import { eraseConsentRecords, getConsentLedger, getConsentRecords, recordConsent } from './consent';
+import type { ConsentAction, ConsentContext, ConsentRecord } from './consent';
+import { isSuppressed, suppressAddress } from './suppression';
 
 export type SubscribeRequest = {
   email : string;
@@ -10,7 +24,22 @@ export type SubscribeRequest = {
   captchaToken?: string;
   mailingLists: string[];
   referer?: string;
-} & Record<string, string>;
+} & Record<string, FormValue>;
+
+/**
+ * Subscription request which passed CAPTCHA verification,
+ * kept in the outbox when the mailing provider fails.
+ */
+export interface QueuedSubscription {
+  email: string;
+  properties: ContactProperties;
+  mailingLists: string[];
+  language?: string;
+  /** Root URL of the control panel link */
+  rootUrl: string;
+  /** Recorded once the mailing provider accepts the subscription */
+  consent: ConsentContext;
+}
 
 /**
  * First step of email subscrition.
@@ -18,6 +47,11 @@ export type SubscribeRequest = {
  * At this stage email is not confirmed to be valid.
  * It sends confirmation email (if it does not exist already)
  * and protects the entry with CAPTCHA mechanism.
+ *
+ * When the mailing provider fails, the request is queued in the outbox
+ * and the response tells the confirmation email will come later (`queued`).
+ * The consent is recorded once the provider accepted the request, so refused ones leave no record.
+ * Addresses deleted on request are rejected with ERASURE_SUPPRESSION.
  */
 export async function subscribe(req: Request) {
   const request = req.body as SubscribeRequest;
@@ -29,25 +63,68 @@ export async function subscribe(req: Request) {
 
   console.info(`subscribe: ${JSON.stringify(request)} from ${remoteIp} to ${rootUrl}`);
 
-  const {email, mailingLists, captchaToken, ...properties} = request;
+  const {email, mailingLists, captchaToken, language, referer, ...fields} = request;
+  const properties = parseFormProperties(fields, loadConfiguration().form);
+  if (language !== undefined) {
+    properties.language = language;
+  }
+  if (referer !== undefined) {
+    properties.referer = referer;
+  }
 
-  const valid = await verifyCaptcha('subscribe', captchaToken, remoteIp);
-  if (!valid) {
+  const captcha = await checkCaptcha('subscribe', captchaToken, remoteIp);
+  if (!captcha.valid) {
     throw new HttpError({
       statusCode: 429,
       message: 'Try again later',
       details: 'Requestor categorized as bot'
     });
   }
+  await checkSuppression(email);
 
-  const contact = await upsertContact(email, properties, mailingLists);
+  const subscription: QueuedSubscription = {email, properties, mailingLists, language, rootUrl: rootUrl.href, consent: {
+    ip: remoteIp,
+    formUrl: referer ?? req.get('Referer'),
+    language,
+    captchaScore: captcha.score,
+    timestamp: new Date().toISOString(),
+  }};
+  try {
+    return await deliverSubscription(subscription);
+  } catch (error) {
+    if (!isTransientError(error)) {
+      throw error;
+    }
+    console.error(`subscribe: queuing ${email} in the outbox`, error);
+    await enqueue(getStore(), subscription, error);
+    return {success: true, doubleOptIn: true, email, queued: true};
+  }
+}
+
+/**
+ * Create or update the contact and send the confirmation email.
+ */
+export async function deliverSubscription({email, properties, mailingLists, language, rootUrl, consent}: QueuedSubscription) {
+  const provider = getProvider();
+  const contact = await provider.upsertContact(email, properties, mailingLists);
   if (contact.optInStatus == 'rejected') {
+    // Data of contacts who rejected the subscription is not rewritten.
     throw new HttpError({
       statusCode: 429,
       message: 'Try again later',
       details: `Contact rejected subscription before ${contact.email}`
     });
-  } else if (contact.optInStatus == 'accepted') {
+  }
+  await recordConsent(email, 'subscribe', Object.fromEntries(mailingLists.map((list) => [list, true])), consent);
+
+  const changes = mergeProperties(contact, properties, loadConfiguration().mailing.mergePolicy);
+  if (Object.keys(changes).length > 0) {
+    console.info(`Updating ${Object.keys(changes).join(', ')} of ${contact.email}`);
+    await provider.updateContactProperties(contact.email, changes);
+    Object.assign(contact, changes);
+  }
+
+  if (contact.optInStatus == 'accepted') {
     console.info(`Contact already subscribed: ${contact.email}`);
     if (mailingLists.every((requestedMailingList) => contact.mailingLists[requestedMailingList]))
     {
@@ -56,16 +133,163 @@ export async function subscribe(req: Request) {
     }
   }
 
-  const token = createToken(contact.email, rootUrl);
+  await sendControlPanelLink(contact, new URL(rootUrl), 'confirm', language);
+  await emitEvent('subscription.requested', contact);
+
+  return {success: true, doubleOptIn: true, email};
+}
+
+/**
+ * Retry subscriptions queued in the outbox; run by the scheduled function.
+ */
+export async function retryQueuedSubscriptions() {
+  return await processOutbox<QueuedSubscription>(getStore(), deliverSubscription);
+}
+
+/**
+ * Throws 429 Too Many Requests if the address was deleted on request and is suppressed,
+ * the same response as for contacts who rejected the subscription.
+ */
+async function checkSuppression(email: string) {
+  if (loadConfiguration().mailing.suppressErased && await isSuppressed(email)) {
+    throw new HttpError({
+      statusCode: 429,
+      message: 'Try again later',
+      details: `Contact deleted its data before ${email}`
+    });
+  }
+}
+
+/**
+ * Email a fresh control panel link to the owner of an expired one.
+ *
+ * The caller verifies the expired token; its subject is the recipient,
+ * so the link is never sent to an address the requestor picked.
+ */
+export async function refreshLink(email: string, req: Request) {
+  const contact = await getProvider().findContact(email);
+  if (contact === null) {
+    throw new HttpError({statusCode: 404, message: 'Contact not found'});
+  }
+  if (contact.optInStatus == 'rejected') {
+    // Do not email contacts who rejected the subscription.
+    throw new HttpError({
+      statusCode: 403,
+      reason: 'subscription-rejected',
+      message: 'Forbidden',
+      details: `Contact rejected subscription before ${contact.email}`
+    });
+  }
+  console.info(`refreshLink: ${contact.email}`);
+  await sendControlPanelLink(contact, getRootUrl(req), 'manage', contact.language);
+  return {success: true, email: contact.email};
+}
+
+/**
+ * Revoke all links sent to the contact ("sign out everywhere").
+ *
+ * Unless disabled, a new control panel link is emailed,
+ * so the owner of the address can still manage the subscription.
+ * Contacts who rejected the subscription get no email.
+ */
+export async function revokeLinks(email: string, req: Request, {sendLink = true} = {}) {
+  const contact = await getProvider().findContact(email);
+  if (contact === null) {
+    throw new HttpError({statusCode: 404, message: 'Contact not found'});
+  }
+  const generation = await revokeTokens(contact);
+  const linkSent = sendLink && contact.optInStatus != 'rejected';
+  if (linkSent) {
+    await sendControlPanelLink({...contact, xTokenGeneration: generation}, getRootUrl(req), 'manage', contact.language);
+  }
+  return {success: true, email: contact.email, linkSent};
+}
+
+/**
+ * Send an email with a new token to the control panel:
+ * the confirmation email for `confirm` tokens, the control panel email otherwise.
+ */
+async function sendControlPanelLink({email, xTokenGeneration}: Contact, rootUrl: URL, scope: TokenScope, language?: string) {
+  const token = createToken(email, rootUrl, scope, xTokenGeneration);
   const params = new URLSearchParams({token});
-  if (properties.language !== undefined) {
-    params.set('lang', properties.language)
+  if (language !== undefined) {
+    params.set('lang', language)
+  }
+  const url = new URL(`/control-panel?${params}`, rootUrl);
+  if (scope === 'confirm') {
+    await getMailer().sendConfirmationMail(email, url, language);
+  } else {
+    await getMailer().sendControlPanelMail(email, url, language);
   }
-  await sendConfirmationMail(contact.email, new URL(`/control-panel?${params}`, rootUrl), properties.language);
+}
 
-  return {success: true, doubleOptIn: true, email};
+/**
+ * Control panel link changing one mailing list, e.g. an unsubscribe link in an email sent to the list.
+ *
+ * The list and the action are signed in the token; the query parameters only tell the control panel
+ * what to ask the contact to confirm.
+ * The token is a `manage` token limited to the change (and unsubscribing from all lists).
+ */
+export function listLinkUrl({email, xTokenGeneration, language}: Contact, rootUrl: URL, listLink: ListLink): URL {
+  const token = createToken(email, rootUrl, 'manage', xTokenGeneration, listLink);
+  const params = new URLSearchParams({token, list: listLink.list, action: listLink.action});
+  if (language !== undefined) {
+    params.set('lang', language);
+  }
+  return new URL(`/control-panel?${params}`, rootUrl);
+}
+
+/**
+ * Verify the update is the change the list link was issued for.
+ *
+ * Throws 403 Forbidden for any other change
+ * and 409 Conflict for a contact unsubscribed from all lists: the change would subscribe the contact again
+ * and reactivate all its lists, against its opt-out.
+ */
+export async function authorizeListLink({list, action}: ListLink, {email, subscribe, mailingLists}: UpdateSubscriptionRequest) {
+  const lists = Object.keys(mailingLists ?? {});
+  if (!subscribe || lists.length !== 1 || lists[0] !== list || mailingLists![list] !== (action === 'subscribe')) {
+    throw new HttpError({
+      statusCode: 403,
+      reason: 'list-link',
+      message: 'Forbidden',
+      details: `List link allows only to ${action} ${list}`,
+    });
+  }
+  const contact = await getProvider().findContact(email);
+  if (contact === null) {
+    throw new HttpError({statusCode: 404, message: 'Contact not found'});
+  }
+  if (!contact.subscribed) {
+    throw new HttpError({
+      statusCode: 409,
+      reason: 'not-subscribed',
+      message: 'Contact is not subscribed',
+      details: `List link cannot ${action} ${list} of ${email} unsubscribed from all lists`,
+    });
+  }
 }
 
+/**
+ * Properties of an existing contact to update with the submitted ones, according to the merge policy.
+ * Empty submitted values never erase the contact data.
+ * @returns changed properties only
+ */
+export function mergeProperties(contact: Contact, submitted: ContactProperties, policy: MergePolicy): ContactProperties {
+  const current = contact as unknown as ContactProperties;
+  const changes: ContactProperties = {};
+  for (const [property, value] of Object.entries(submitted)) {
+    if (isReservedProperty(property) || value === undefined || value === null || value === '' || current[property] === value) {
+      continue;
+    }
+    const strategy = policy.properties[property] ?? policy.default;
+    const missing = current[property] === undefined || current[property] === null || current[property] === '';
+    if (strategy === 'overwrite' || (strategy === 'fill-missing' && missing)) {
+      changes[property] = value;
+    }
+  }
+  return changes;
+}
 
 export interface MailingList {
     /**
@@ -93,14 +317,17 @@ export interface SubscriptionStatus {
   optInStatus: 'accepted' | 'rejected' | 'pending' | null;
   mailingLists: MailingList[];
   referer?: string;
+  /** How the control panel confirms a pending subscription */
+  confirmationMode: ConfirmationMode;
 }
 
 export async function getSubscription(email: string): Promise<SubscriptionStatus> {
-  const contact = await findContact(email);
+  const provider = getProvider();
+  const contact = await provider.findContact(email);
   if (contact === null) {
     throw new HttpError({statusCode: 404, message: 'Contact not found'});
   }
-  const availableMailingLists = await getMailingLists();
+  const availableMailingLists = await provider.getMailingLists();
   return {
     success: true,
     email: contact.email,
@@ -110,10 +337,79 @@ export async function getSubscription(email: string): Promise<SubscriptionStatus
       subscribed: contact.mailingLists[list.id] || false,
       ...list
     })),
-    referer: contact.referer
+    referer: contact.referer,
+    confirmationMode: loadConfiguration().mailing.confirmationMode,
+  };
+}
+
+/**
+ * Everything known about the contact (GDPR right of access).
+ */
+export interface SubscriptionExport {
+  /** ISO 8601 */
+  exportedAt: string;
+  email: string;
+  subscribed: boolean;
+  optInStatus: 'accepted' | 'rejected' | 'pending' | null;
+  /** All contact properties kept by the mailing provider */
+  properties: Record<string, unknown>;
+  mailingLists: MailingList[];
+  /** Consent history, oldest first */
+  consent: ConsentRecord[];
+}
+
+/**
+ * Collect the contact data of the mailing provider and the consent ledger.
+ */
+export async function exportSubscription(email: string): Promise<SubscriptionExport> {
+  const provider = getProvider();
+  const contact = await provider.findContact(email);
+  if (contact === null) {
+    throw new HttpError({statusCode: 404, message: 'Contact not found'});
+  }
+  const availableMailingLists = await provider.getMailingLists();
+  const {mailingLists, optInStatus, ...properties} = contact;
+  return {
+    exportedAt: new Date().toISOString(),
+    email: contact.email,
+    subscribed: contact.subscribed,
+    optInStatus,
+    properties,
+    mailingLists: availableMailingLists.map((list) => ({
+      ...list,
+      subscribed: mailingLists[list.id] || false,
+    })),
+    consent: await getConsentRecords(contact.email),
   };
 }
 
+/**
+ * Delete the contact with all its data (GDPR right to erasure).
+ *
+ * Tokens issued to the address so far stop working, also when the address subscribes again,
+ * and its queued subscriptions are removed, so a retry cannot create the contact again.
+ * With ERASURE_SUPPRESSION only the hash of the address is kept, so bots cannot subscribe it again.
+ */
+export async function deleteSubscription(email: string) {
+  const provider = getProvider();
+  const contact = await provider.findContact(email);
+  if (contact === null) {
+    throw new HttpError({statusCode: 404, message: 'Contact not found'});
+  }
+  const suppressed = loadConfiguration().mailing.suppressErased;
+  if (suppressed) {
+    // Before the deletion, so a failure cannot leave the address open to bots.
+    await suppressAddress(contact.email);
+  }
+  console.info(`deleting contact ${contact.email}${suppressed ? ', address suppressed' : ''}`);
+  await revokeAddressTokens(contact.email);
+  const address = contact.email.toLowerCase();
+  await removeEntries<QueuedSubscription>(getStore(), (subscription) => subscription.email.toLowerCase() === address);
+  await provider.deleteContact(contact.email);
+  await eraseConsentRecords(contact.email);
+  await emitEvent('subscription.deleted', {...contact, subscribed: false, optInStatus: null, mailingLists: {}});
+  return {success: true, email: contact.email, suppressed};
+}
 
 export interface UpdateSubscriptionRequest {
   email: string;
@@ -129,18 +425,103 @@ export interface UpdateSubscriptionRequest {
    * @see https://loops.so/docs/contacts/mailing-lists
    */
   mailingLists?: Record<string, boolean>;
+
+  /**
+   * CAPTCHA token proving a person confirms the subscription (CONFIRMATION_MODE=captcha).
+   */
+  captchaToken?: string;
+}
+
+/**
+ * Verify a person confirms the pending subscription (env:CONFIRMATION_MODE).
+ *
+ * In 'captcha' mode the confirmation must pass the CAPTCHA check;
+ * 'auto' and 'click' modes are up to the control panel.
+ * Throws 429 Too Many Requests when the requestor is categorized as bot.
+ * @returns result of the CAPTCHA check, if any
+ */
+export async function verifyConfirmation({email, subscribe, captchaToken}: UpdateSubscriptionRequest, remoteIp?: string): Promise<CaptchaVerification | undefined> {
+  if (!subscribe || loadConfiguration().mailing.confirmationMode !== 'captcha') {
+    return;
+  }
+  const contact = await getProvider().findContact(email);
+  if (contact?.optInStatus !== 'pending') {
+    return;
+  }
+  const captcha = await checkCaptcha('confirm', captchaToken, remoteIp);
+  if (!captcha.valid) {
+    throw new HttpError({
+      statusCode: 429,
+      reason: 'captcha-failed',
+      message: 'Try again later',
+      details: `Confirmation of ${email} categorized as bot`
+    });
+  }
+  return captcha;
 }
 
-export async function updateSubscription({email, subscribe, mailingLists}: UpdateSubscriptionRequest) {
+/**
+ * Subscribe or unsubscribe the contact, record the consent and notify the webhooks about the change.
+ *
+ * The consent is recorded before the change is passed to the provider.
+ * @param context  Request details recorded with the consent
+ */
+export async function updateSubscription({email, subscribe, mailingLists}: UpdateSubscriptionRequest, context: ConsentContext = {}) {
+  const provider = getProvider();
+  // The previous state tells a confirmation from a change of lists;
+  // it is looked up only for the consent ledger and webhooks.
+  const events: WebhookEventType[] = subscribe ? ['subscription.confirmed', 'subscription.updated'] : ['subscription.unsubscribed'];
+  const lookup = getConsentLedger() !== null || events.some((type) => isEventEnabled(type));
+  const before = lookup ? await provider.findContact(email) : null;
+  const change = before !== null ? describeUpdate(before, subscribe, mailingLists) : null;
+
+  if (change !== null) {
+    await recordConsent(email, change.action, change.contact.mailingLists, {language: change.contact.language, ...context});
+  }
+
   if (subscribe) {
-    await subscribeContact(email, mailingLists);   
+    await provider.subscribeContact(email, mailingLists);
   } else {
-    await unsubscribeContact(email);
+    await provider.unsubscribeContact(email);
+  }
+
+  if (change !== null) {
+    await emitEvent(UPDATE_EVENTS[change.action], change.contact);
   }
   return {success: true, email, subscribed: subscribe};
 }
 
-function getRootUrl(req: Request): URL {
+type UpdateAction = Exclude<ConsentAction, 'subscribe'>;
+
+const UPDATE_EVENTS: Record<UpdateAction, WebhookEventType> = {
+  confirm: 'subscription.confirmed',
+  update: 'subscription.updated',
+  unsubscribe: 'subscription.unsubscribed',
+};
+
+/**
+ * Kind of the update and the contact after it; null when the update changes nothing.
+ */
+function describeUpdate(before: Contact, subscribe: boolean, mailingLists?: Record<string, boolean>): {action: UpdateAction, contact: Contact} | null {
+  const contact: Contact = {
+    ...before,
+    subscribed: subscribe,
+    optInStatus: subscribe ? 'accepted' : 'rejected',
+    mailingLists: {...before.mailingLists, ...(subscribe ? mailingLists : {})},
+  };
+  if (!subscribe) {
+    return {action: 'unsubscribe', contact};
+  }
+  if (before.optInStatus !== 'accepted' || !before.subscribed) {
+    return {action: 'confirm', contact};
+  }
+  if (Object.entries(mailingLists ?? {}).some(([list, subscribed]) => (before.mailingLists[list] ?? false) !== subscribed)) {
+    return {action: 'update', contact};
+  }
+  return null;
+}
+
+export function getRootUrl(req: Request): URL {
   if (process.env.NODE_ENV === "development" && process.env.URL !== undefined) {
     // netlify dev sets request to https://localhost
     // even though the server is running on http://localhost:8888
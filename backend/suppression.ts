@@ -0,0 +1,31 @@
+import { createHash } from 'crypto';
+import { getStore } from './store';
+import type { KeyValueStore } from './store';
+
+/**
+ * Trace of an address deleted on request; the address itself is not kept.
+ */
+export interface SuppressionRecord {
+  /** ISO 8601 */
+  suppressedAt: string;
+}
+
+const PREFIX = 'suppression/';
+
+/**
+ * Reject subscriptions of the address from now on (env:ERASURE_SUPPRESSION).
+ */
+export async function suppressAddress(email: string, store: KeyValueStore = getStore()) {
+  await store.set<SuppressionRecord>(suppressionKey(email), {suppressedAt: new Date().toISOString()});
+}
+
+export async function isSuppressed(email: string, store: KeyValueStore = getStore()): Promise<boolean> {
+  return await store.get<SuppressionRecord>(suppressionKey(email)) !== undefined;
+}
+
+/**
+ * Store key of the address: SHA-256 of the lowercased address, so keys do not reveal it.
+ */
+export function suppressionKey(email: string): string {
+  return PREFIX + createHash('sha256').update(email.trim().toLowerCase()).digest('hex');
+}
@@ -0,0 +1,54 @@
+import { createToken, validateToken } from './jwt';
+import type { ConsentContext } from './consent';
+import type { Contact } from './provider';
+import { updateSubscription } from './subscription';
+
+/**
+ * Body of the one-click unsubscribe request and value of the `List-Unsubscribe-Post` header.
+ * @see https://datatracker.ietf.org/doc/html/rfc8058
+ */
+export const LIST_UNSUBSCRIBE_POST = 'List-Unsubscribe=One-Click';
+
+/**
+ * Headers required by Gmail and Yahoo from bulk senders.
+ */
+export interface ListUnsubscribeHeaders {
+  /** HTTPS link of the one-click unsubscribe endpoint in angle brackets */
+  'List-Unsubscribe': string;
+  'List-Unsubscribe-Post': string;
+}
+
+/**
+ * One-click unsubscribe link with an `unsubscribe` token.
+ * Mail clients POST to it; opened in a browser it shows the control panel.
+ */
+export function unsubscribeUrl({email, xTokenGeneration}: Contact, rootUrl: URL): URL {
+  const token = createToken(email, rootUrl, 'unsubscribe', xTokenGeneration);
+  return new URL(`/api/unsubscribe?${new URLSearchParams({token})}`, rootUrl);
+}
+
+/**
+ * `List-Unsubscribe` header values for the contact.
+ *
+ * Pass them to the mailing provider as data variables (Loops)
+ * or as headers (SMTP) of every campaign email.
+ */
+export function listUnsubscribeHeaders(contact: Contact, rootUrl: URL): ListUnsubscribeHeaders {
+  return {
+    'List-Unsubscribe': `<${unsubscribeUrl(contact, rootUrl)}>`,
+    'List-Unsubscribe-Post': LIST_UNSUBSCRIBE_POST,
+  };
+}
+
+/**
+ * Unsubscribe the owner of the token from all mailing lists.
+ *
+ * Tokens of any scope are accepted, the same as for unsubscribing from the control panel.
+ * Throws 401 Unauthorized if the token is invalid, expired or revoked.
+ * @param context  Request details for the consent ledger
+ */
+export async function oneClickUnsubscribe(token: string, issuer: string, context: ConsentContext = {}) {
+  const email = await validateToken(token, issuer);
+  console.info(`oneClickUnsubscribe: ${email}`);
+  return await updateSubscription({email, subscribe: false}, context);
+}
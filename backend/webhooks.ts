@@ -0,0 +1,142 @@
+import { createHmac, randomUUID } from 'crypto';
+import fetch from 'node-fetch';
+import { loadConfiguration } from './config';
+import type { WebhookEventType, WebhooksConfiguration } from './config';
+import { HttpError } from './error';
+import { enqueue, isTransientError, processOutbox } from './outbox';
+import type { Contact, MailingLists } from './provider';
+import { getStore } from './store';
+
+/**
+ * Subscription lifecycle event sent to the webhook endpoints.
+ * The schema is published in backend/events.yaml.
+ */
+export interface WebhookEvent {
+  type: WebhookEventType;
+  /** ISO 8601 time of the change */
+  timestamp: string;
+  data: {
+    email: string;
+    subscribed: boolean;
+    optInStatus: 'accepted' | 'rejected' | 'pending' | null;
+    /** Mailing lists of the contact after the change */
+    mailingLists: MailingLists;
+  };
+}
+
+/**
+ * Event on the way to one endpoint, kept in the outbox when the endpoint fails.
+ */
+export interface WebhookDelivery {
+  url: string;
+  /** webhook-id header; the same in every attempt, so the receiver can skip repeated deliveries */
+  id: string;
+  event: WebhookEvent;
+}
+
+/** Key prefix of the webhook outbox, separate from queued subscriptions */
+const OUTBOX_PREFIX = 'webhook-outbox/';
+
+/** Client errors worth retrying; the endpoint rejects other 4xx responses for good */
+const RETRIED_STATUS_CODES = [408, 425, 429];
+
+/**
+ * Standard Webhooks signature of a request: HMAC-SHA256 of `<webhook-id>.<webhook-timestamp>.<body>`
+ * with the base64 secret after the `whsec_` prefix.
+ * @see https://github.com/standard-webhooks/standard-webhooks/blob/main/spec/standard-webhooks.md
+ */
+export function webhookSignature(secret: string, id: string, timestamp: string, body: Buffer | string): Buffer {
+  const key = Buffer.from(secret.replace(/^whsec_/, ''), 'base64');
+  return createHmac('sha256', key).update(`${id}.${timestamp}.`).update(body).digest();
+}
+
+/**
+ * Notify the endpoints selected by WEBHOOK_URLS and WEBHOOK_EVENTS about the change of the contact.
+ *
+ * Endpoints are called in parallel; a failed delivery is queued in the outbox and never fails the caller.
+ */
+export async function emitEvent(type: WebhookEventType, {email, subscribed, optInStatus, mailingLists}: Contact) {
+  const config = loadConfiguration().webhooks;
+  if (!isEventEnabled(type, config)) {
+    return;
+  }
+  const event: WebhookEvent = {
+    type,
+    timestamp: new Date().toISOString(),
+    data: {email, subscribed, optInStatus, mailingLists},
+  };
+  const id = `msg_${randomUUID()}`;
+  await Promise.all(config.urls.map(async (url) => {
+    const delivery: WebhookDelivery = {url, id, event};
+    try {
+      await deliverWebhook(delivery);
+    } catch (error) {
+      if (!isTransientError(error)) {
+        console.warn(`webhooks: ${url} rejected ${type} of ${email}`, error);
+        return;
+      }
+      console.warn(`webhooks: queuing ${type} of ${email} to ${url} in the outbox`, error);
+      try {
+        await enqueue(getStore(), delivery, error, new Date(), OUTBOX_PREFIX);
+      } catch (storeError) {
+        console.error(`webhooks: ${type} of ${email} to ${url} is lost`, storeError);
+      }
+    }
+  }));
+}
+
+/**
+ * Whether any endpoint receives the event; lets callers skip looking up the contact.
+ */
+export function isEventEnabled(type: WebhookEventType, config: WebhooksConfiguration = loadConfiguration().webhooks): boolean {
+  return config.urls.length > 0 && config.events.includes(type);
+}
+
+/**
+ * POST the signed event to the endpoint.
+ *
+ * Every attempt is signed with the current time, so receivers can reject stale requests.
+ * Throws HttpError 4xx for responses the endpoint would repeat, e.g. 400 or 410, and 503 otherwise.
+ */
+export async function deliverWebhook({url, id, event}: WebhookDelivery) {
+  const {secret, timeout} = loadConfiguration().webhooks;
+  if (secret === undefined) {
+    throw new Error('WEBHOOK_SECRET is not set');
+  }
+  const body = JSON.stringify(event);
+  const timestamp = String(Math.floor(Date.now() / 1000));
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'webhook-id': id,
+      'webhook-timestamp': timestamp,
+      'webhook-signature': `v1,${webhookSignature(secret, id, timestamp, body).toString('base64')}`,
+    },
+    body,
+    signal: AbortSignal.timeout(timeout),
+  });
+  if (response.ok) {
+    return;
+  }
+  if (response.status < 500 && !RETRIED_STATUS_CODES.includes(response.status)) {
+    throw new HttpError({
+      statusCode: response.status,
+      message: 'Webhook rejected',
+      details: `${url} responded ${response.status} to ${id}`,
+    });
+  }
+  throw new HttpError({
+    statusCode: 503,
+    reason: 'service-unavailable',
+    message: 'Webhook failed',
+    details: `${url} responded ${response.status} to ${id}`,
+  });
+}
+
+/**
+ * Retry webhook deliveries queued in the outbox; run by the scheduled function.
+ */
+export async function retryQueuedWebhooks() {
+  return await processOutbox<WebhookDelivery>(getStore(), deliverWebhook, new Date(), OUTBOX_PREFIX);
+}
@@ -2,6 +2,7 @@
 import '@material/web/icon/icon';
 import '@material/web/button/filled-button';
 import '@material/web/button/filled-tonal-button';
+import '@material/web/button/text-button';
 import '@material/web/progress/linear-progress';
 import '@material/web/progress/circular-progress';
 import '@material/web/icon/icon';
@@ -14,29 +15,57 @@ import './company';
 import { apiRoot, tokenContext } from './context';
 import { initializeLocale } from './localize';
 import { SubscriptionChangeEvent } from './mailing-lists';
+import { Captcha, createCaptcha } from './captcha';
 import type { SubscriptionStatus, UpdateSubscriptionRequest } from '../backend/subscription';
+import type { ListLink } from '../backend/jwt';
 import type { Company } from './company';
 
 // lit
 import { LitElement, html, css } from 'lit';
 import { customElement, property, state } from 'lit/decorators.js';
 import { provide } from '@lit/context';
-import { Task } from '@lit/task';
-import { msg } from '@lit/localize';
+import { Task, TaskStatus } from '@lit/task';
+import { msg, str } from '@lit/localize';
 
 // other third-party
 import JSConfetti from 'js-confetti';
 
-function getToken(): string | undefined {
-  const queryParams = new URLSearchParams(window.location.search);
-  const token = queryParams.get('token');
+const SESSION_KEY = 'carajillo-session';
+
+/**
+ * Take the token from the email link out of the address bar,
+ * so it does not stay in the browser history or reach analytics.
+ */
+function takeLinkToken(): string | undefined {
+  const url = new URL(window.location.href);
+  const token = url.searchParams.get('token');
   if (token === null) {
     return undefined;
-  } else {
-    return token;
   }
+  url.searchParams.delete('token');
+  window.history.replaceState(window.history.state, '', url);
+  return token;
 }
 
+/**
+ * Mailing list change of a list link (`list` and `action` parameters).
+ * The change itself is signed in the token; the parameters only select what to confirm.
+ */
+function getListLink(): ListLink | undefined {
+  const queryParams = new URLSearchParams(window.location.search);
+  const list = queryParams.get('list');
+  const action = queryParams.get('action');
+  if (list === null || (action !== 'subscribe' && action !== 'unsubscribe')) {
+    return undefined;
+  }
+  return {list, action};
+}
+
+/**
+ * Link from the email expired or was used up; a new one can be requested.
+ */
+class ExpiredTokenError extends Error {}
+
 @customElement('ca-control-panel')
 export class ControlPanel extends LitElement {
   private confetti = new JSConfetti();
@@ -44,8 +73,19 @@ export class ControlPanel extends LitElement {
   @property({type: Boolean})
   public autosubscribe?: boolean;
 
+  // Token from the email link; it is exchanged for a session right away and kept only to request a new link.
+  private readonly linkToken = takeLinkToken();
+
+  // Change of a single mailing list to confirm instead of the whole control panel.
+  private readonly listLink = getListLink();
+
+  // Proves a person confirms the subscription (CONFIRMATION_MODE=captcha); loaded on first use.
+  private captcha?: Promise<Captcha>;
+
+  // Session authorizing all requests; kept for the browser tab, so the page can be reloaded.
+  // A confirmation session is replaced by a management session after the first change.
   @provide({context: tokenContext})
-  protected token: string | undefined = getToken();
+  protected token: string | undefined = sessionStorage.getItem(SESSION_KEY) ?? undefined;
 
   @state()
   protected company?: Company;
@@ -53,6 +93,10 @@ export class ControlPanel extends LitElement {
   @state()
   protected subscription?: SubscriptionStatus;
 
+  // Deleting the data asks twice; set after the first click.
+  @state()
+  protected confirmingDeletion = false;
+
   public async connectedCallback() {
     super.connectedCallback();
     await initializeLocale();
@@ -89,6 +133,39 @@ export class ControlPanel extends LitElement {
     }
   }
 
+  public sendNewLink() {
+    this.refreshLinkTask.run([this.linkToken ?? this.token]);
+  }
+
+  protected setSession(token: string | undefined) {
+    this.token = token;
+    if (token === undefined) {
+      sessionStorage.removeItem(SESSION_KEY);
+    } else {
+      sessionStorage.setItem(SESSION_KEY, token);
+    }
+  }
+
+  public signOutEverywhere() {
+    this.revokeLinksTask.run([this.token]);
+  }
+
+  public downloadData() {
+    this.downloadDataTask.run([this.token]);
+  }
+
+  public deleteData() {
+    this.confirmingDeletion = true;
+  }
+
+  public confirmDeleteData() {
+    this.deleteDataTask.run([this.token]);
+  }
+
+  public cancelDeleteData() {
+    this.confirmingDeletion = false;
+  }
+
   protected onMailingListChange(e: SubscriptionChangeEvent) {
     this.updateSubscriptionTask.run([{
       email: this.subscription!.email,
@@ -130,9 +207,28 @@ export class ControlPanel extends LitElement {
     .update-status {
       min-height: var(--md-linear-progress-active-indicator-height, 4px);
     }
+
+    .delete-actions {
+      display: flex;
+      justify-content: flex-end;
+      gap: 0.5rem;
+    }
   `;
 
   protected render() {
+    if (this.revokeLinksTask.status === TaskStatus.COMPLETE) {
+      return html`
+        <div class="container">
+          <ca-status-message><md-icon slot="icon">logout</md-icon>${msg('All links sent to you so far no longer work.')}
+            ${this.revokeLinksTask.value ? html`<br/>${msg('We have sent a new link to your email address.')}` : html``}</ca-status-message>
+        </div>`;
+    }
+    if (this.deleteDataTask.status === TaskStatus.COMPLETE) {
+      return html`
+        <div class="container">
+          <ca-status-message><md-icon slot="icon">delete_forever</md-icon>${msg('Your subscription and all your data have been deleted.')}</ca-status-message>
+        </div>`;
+    }
     return this.fetchSubscriptionTask.render({
       pending: () => html`<md-circular-progress four-color indeterminate></md-circular-progress>`,
       complete: ([company, subscription]) => {
@@ -141,18 +237,67 @@ export class ControlPanel extends LitElement {
           complete: () => html``,
           error: (error) => html`<ca-status-message><md-icon slot="icon">error</md-icon>${String(error)}</ca-status-message>`
         });
+        const revokeStatus = this.revokeLinksTask.render({
+          pending: () => html`<md-linear-progress indeterminate></md-linear-progress>`,
+          error: (error) => html`<ca-status-message><md-icon slot="icon">error</md-icon>${String(error)}</ca-status-message>`
+        });
+        const downloadStatus = this.downloadDataTask.render({
+          pending: () => html`<md-linear-progress indeterminate></md-linear-progress>`,
+          error: (error) => html`<ca-status-message><md-icon slot="icon">error</md-icon>${String(error)}</ca-status-message>`
+        });
         return html`
           <div class="container">  
             <ca-company .company=${company}></ca-company>
             <div class="update-status">
               ${updateStatus}
             </div>
-            ${this.renderSubscriptionStatus(company, subscription)}
+            ${this.listLink !== undefined
+              ? this.renderListLink(subscription, this.listLink)
+              : this.renderSubscriptionStatus(company, subscription)}
             ${subscription.referer ? html`<md-filled-button @click=${this.close}>${msg('Go back')}<md-icon slot="icon">sentiment_satisfied</md-icon></md-filled-button>` : html``}
+            ${this.listLink !== undefined ? html`` : html`
+              ${revokeStatus}
+              <md-text-button @click=${this.signOutEverywhere}>${msg('Sign out everywhere')}<md-icon slot="icon">logout</md-icon></md-text-button>
+              ${downloadStatus}
+              <md-text-button @click=${this.downloadData}>${msg('Download my data')}<md-icon slot="icon">download</md-icon></md-text-button>
+              ${this.renderDeleteData()}`}
           </div>`;
       },
+      error: (error) => error instanceof ExpiredTokenError
+        ? this.renderExpiredToken(error)
+        : html`<ca-status-message><md-icon slot="icon">error</md-icon>${String(error)}</ca-status-message>`
+    });
+  }
+
+  protected renderDeleteData() {
+    const deleteStatus = this.deleteDataTask.render({
+      pending: () => html`<md-linear-progress indeterminate></md-linear-progress>`,
+      error: (error) => html`<ca-status-message><md-icon slot="icon">error</md-icon>${String(error)}</ca-status-message>`
+    });
+    if (!this.confirmingDeletion) {
+      return html`<md-text-button @click=${this.deleteData}>${msg('Delete my data')}<md-icon slot="icon">delete_forever</md-icon></md-text-button>`;
+    }
+    return html`
+      ${deleteStatus}
+      <ca-status-message><md-icon slot="icon">warning</md-icon>${msg('This deletes your subscription and all data we keep about you. It cannot be undone.')}</ca-status-message>
+      <div class="delete-actions">
+        <md-text-button @click=${this.cancelDeleteData}>${msg('Cancel')}</md-text-button>
+        <md-filled-tonal-button @click=${this.confirmDeleteData}>${msg('Yes, delete everything')}<md-icon slot="icon">delete_forever</md-icon></md-filled-tonal-button>
+      </div>`;
+  }
+
+  protected renderExpiredToken(error: ExpiredTokenError) {
+    const action = this.refreshLinkTask.render({
+      initial: () => html`<md-filled-button @click=${this.sendNewLink}>${msg('Send me a new link')}<md-icon slot="icon">forward_to_inbox</md-icon></md-filled-button>`,
+      pending: () => html`<md-linear-progress indeterminate></md-linear-progress>`,
+      complete: () => html`<ca-status-message><md-icon slot="icon">mark_email_unread</md-icon>${msg('We have sent a new link to your email address.')}</ca-status-message>`,
       error: (error) => html`<ca-status-message><md-icon slot="icon">error</md-icon>${String(error)}</ca-status-message>`
     });
+    return html`
+      <div class="container">
+        <ca-status-message><md-icon slot="icon">schedule</md-icon>${error.message}</ca-status-message>
+        ${action}
+      </div>`;
   }
 
   protected renderSubscriptionStatus(company: Company, subscription: SubscriptionStatus) {
@@ -169,6 +314,10 @@ export class ControlPanel extends LitElement {
            @change=${this.onMailingListChange}></ca-mailing-lists>` : html``}
         <md-filled-tonal-button @click=${this.unsubscribe}>${msg('Unsubscribe')}<md-icon slot="icon">sentiment_dissatisfied</md-icon></md-filled-tonal-button>
       `;
+    } else if (subscription.optInStatus === 'pending') {
+      return html`
+        <ca-status-message><md-icon slot="icon">mark_email_unread</md-icon>${msg('Confirm your subscription to start receiving our emails.')}</ca-status-message>
+        <md-filled-button @click=${this.subscribe}>${msg('Confirm subscription')}<md-icon slot="icon">mark_email_read</md-icon></md-filled-button>`;
     } else {
       return html`
         <ca-status-message><md-icon slot="icon">unsubscribe</md-icon>${msg('You are unsubscribed from all mailing lists.')}</ca-status-message>
@@ -176,8 +325,39 @@ export class ControlPanel extends LitElement {
     }
   }
 
+  protected renderListLink(subscription: SubscriptionStatus, {list, action}: ListLink) {
+    const mailingList = subscription.mailingLists.find((mailingList) => mailingList.id === list);
+    if (mailingList === undefined) {
+      return html`<ca-status-message><md-icon slot="icon">error</md-icon>${msg('Mailing list not found')}</ca-status-message>`;
+    }
+    // A list link cannot subscribe again a contact who opted out of everything.
+    if (!subscription.subscribed) {
+      return html`<ca-status-message><md-icon slot="icon">unsubscribe</md-icon>${msg('You are unsubscribed from all mailing lists.')}</ca-status-message>`;
+    }
+    const subscribe = action === 'subscribe';
+    if (subscription.subscribed && mailingList.subscribed === subscribe) {
+      return subscribe
+        ? html`<ca-status-message><md-icon slot="icon">mark_email_read</md-icon>${msg(str`You are subscribed to ${mailingList.name}.`)}</ca-status-message>`
+        : html`<ca-status-message><md-icon slot="icon">unsubscribe</md-icon>${msg(str`You are unsubscribed from ${mailingList.name}.`)}</ca-status-message>`;
+    }
+    const confirm = () => this.updateSubscriptionTask.run([{
+      email: subscription.email,
+      subscribe: true,
+      mailingLists: {[list]: subscribe}
+    }]);
+    return html`
+      <ca-status-message><md-icon slot="icon">help</md-icon>${subscribe
+        ? msg(str`Do you want to subscribe to ${mailingList.name}?`)
+        : msg(str`Do you want to unsubscribe from ${mailingList.name}?`)}</ca-status-message>
+      <md-filled-button @click=${confirm}>${msg('Confirm')}<md-icon slot="icon">check</md-icon></md-filled-button>`;
+  }
+
   private fetchSubscriptionTask = new Task(this, {
-    task: async ([token], {signal}) => {
+    task: async ([linkToken], {signal}) => {
+      if (linkToken !== undefined) {
+        await this.openSession(linkToken, signal);
+      }
+      const token = this.token;
       if (token === undefined) {
         throw new Error(msg('Missing authorization token'));
       }
@@ -194,7 +374,10 @@ export class ControlPanel extends LitElement {
         throw new Error(msg('Failed to fetch company information'));
       }
       if (!subscriptionResponse.ok) {
-        // @todo handle token refresh
+        const {reason} = await subscriptionResponse.json().catch(() => ({}));
+        if (subscriptionResponse.status === 401 && reason === 'expired-token') {
+          throw new ExpiredTokenError(msg('This link has expired.'));
+        }
         throw new Error(msg('Failed to fetch subscription status'));
       }
       this.company = await companyResponse.json() as Company;
@@ -204,8 +387,32 @@ export class ControlPanel extends LitElement {
 
       return [this.company, this.subscription];
     },
-    args: () => [this.token]
+    args: () => [this.linkToken]
   });
+
+  private async openSession(linkToken: string, signal: AbortSignal) {
+    const response = await fetch(`${apiRoot}/session`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${linkToken}`,
+        'Accept': 'application/json',
+      },
+      signal
+    });
+    if (!response.ok) {
+      const {reason} = await response.json().catch(() => ({}));
+      if (response.status === 401 && reason === 'expired-token') {
+        throw new ExpiredTokenError(msg('This link has expired.'));
+      }
+      // Confirmation links work once; the subscriber can ask for a control panel link.
+      if (response.status === 401 && reason === 'used-token') {
+        throw new ExpiredTokenError(msg('This link was already used.'));
+      }
+      throw new Error(msg('Failed to fetch subscription status'));
+    }
+    const {token} = await response.json() as {token: string};
+    this.setSession(token);
+  }
   
   private updateSubscriptionTask = new Task<[UpdateSubscriptionRequest], void>(this, {
     task: async ([update], {signal}) => {
@@ -214,6 +421,9 @@ export class ControlPanel extends LitElement {
       }
       if (this.subscription === undefined)
         throw new Error(msg('Subscription not found'));
+      if (this.subscription.confirmationMode === 'captcha' && this.subscription.optInStatus === 'pending' && update.subscribe) {
+        update = {...update, captchaToken: await this.getCaptchaToken()};
+      }
       
       const response = await fetch(`${apiRoot}/subscription`, {
         method: 'PUT',
@@ -225,9 +435,16 @@ export class ControlPanel extends LitElement {
         body: JSON.stringify(update),
         signal
       });
+      if (response.status === 429) {
+        throw new Error(msg('We could not verify you are not a robot. Try again later.'));
+      }
       if (!response.ok) {
         throw new Error(msg('Failed to update subscription'));
       }
+      const {token} = await response.json() as {token?: string};
+      if (token !== undefined) {
+        this.setSession(token);
+      }
 
       if (this.subscription.optInStatus === 'pending' && update.subscribe) {
         this.confetti.addConfetti({
@@ -247,9 +464,125 @@ export class ControlPanel extends LitElement {
     autoRun: false,
   });
 
+  private refreshLinkTask = new Task<[string | undefined], void>(this, {
+    task: async ([token], {signal}) => {
+      if (token === undefined) {
+        throw new Error(msg('Missing authorization token'));
+      }
+      const response = await fetch(`${apiRoot}/subscription/refresh`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Accept': 'application/json',
+        },
+        signal
+      });
+      if (response.status === 429) {
+        throw new Error(msg('Too many new links requested. Try again later.'));
+      }
+      if (!response.ok) {
+        throw new Error(msg('Failed to send a new link'));
+      }
+    },
+    autoRun: false,
+  });
+
+  // Invalidates all links, including the current one; a new link is emailed.
+  private revokeLinksTask = new Task<[string | undefined], boolean>(this, {
+    task: async ([token], {signal}) => {
+      if (token === undefined) {
+        throw new Error(msg('Missing authorization token'));
+      }
+      const response = await fetch(`${apiRoot}/subscription/revoke`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Accept': 'application/json',
+        },
+        signal
+      });
+      if (response.status === 429) {
+        throw new Error(msg('Too many new links requested. Try again later.'));
+      }
+      if (!response.ok) {
+        throw new Error(msg('Failed to sign out'));
+      }
+      this.setSession(undefined);
+      const {linkSent} = await response.json() as {linkSent: boolean};
+      return linkSent;
+    },
+    autoRun: false,
+  });
+
+  // Everything known about the subscriber as a JSON file (GDPR right of access).
+  private downloadDataTask = new Task<[string | undefined], void>(this, {
+    task: async ([token], {signal}) => {
+      if (token === undefined) {
+        throw new Error(msg('Missing authorization token'));
+      }
+      const response = await fetch(`${apiRoot}/subscription/export`, {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Accept': 'application/json',
+        },
+        signal
+      });
+      if (!response.ok) {
+        throw new Error(msg('Failed to download your data'));
+      }
+      // The token is sent in a header, so the file cannot be a plain link.
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = 'subscription-data.json';
+      link.click();
+      // Some browsers start the download after the click returns; revoking right away cancels it.
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+    },
+    autoRun: false,
+  });
+
+  // Deletes the subscriber with all data (GDPR right to erasure); all links stop working.
+  private deleteDataTask = new Task<[string | undefined], void>(this, {
+    task: async ([token], {signal}) => {
+      if (token === undefined) {
+        throw new Error(msg('Missing authorization token'));
+      }
+      const response = await fetch(`${apiRoot}/subscription`, {
+        method: 'DELETE',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Accept': 'application/json',
+        },
+        signal
+      });
+      if (!response.ok) {
+        throw new Error(msg('Failed to delete your data'));
+      }
+      this.setSession(undefined);
+    },
+    autoRun: false,
+  });
+
+  private async getCaptchaToken(): Promise<string> {
+    if (this.captcha === undefined) {
+      this.captcha = createCaptcha().then((captcha) => {
+        // CAPTCHA widgets do not work in the shadow DOM.
+        const container = document.createElement('div');
+        container.className = 'carajillo-captcha';
+        document.body.appendChild(container);
+        captcha.render(container);
+        return captcha;
+      });
+    }
+    return (await this.captcha).getToken('confirm');
+  }
+
+  // Link scanners opening the page must not confirm the subscription (CONFIRMATION_MODE);
+  // in click mode only the confirmation button does.
   private handleAutosubscribe() {
-    console.info('handleAutosubscribe', window.document.visibilityState, this.autosubscribe, this.subscription?.optInStatus);
-    if (window.document.visibilityState === 'visible' && this.autosubscribe && this.subscription?.optInStatus === 'pending') {
+    console.info('handleAutosubscribe', window.document.visibilityState, this.autosubscribe, this.subscription?.optInStatus, this.subscription?.confirmationMode);
+    if (window.document.visibilityState === 'visible' && this.autosubscribe && this.subscription?.confirmationMode !== 'click' && this.subscription?.optInStatus === 'pending') {
       this.updateSubscriptionTask.run([{
         email: this.subscription!.email,
         subscribe: true,
@@ -0,0 +1,56 @@
+// Development mailbox — lists confirmation emails recorded by the backend (env:DEV_MAILBOX).
+import { apiRoot } from "./context";
+import { html, render } from "lit";
+import type { MailboxMessage } from "../backend/mailbox";
+
+async function fetchMessages(): Promise<MailboxMessage[]> {
+  const response = await fetch(`${apiRoot}/test/mailbox`, {
+    headers: { "Accept": "application/json" },
+  });
+  if (!response.ok) {
+    throw new Error(`Mailbox is not available (HTTP ${response.status}). Is the server running with NODE_ENV=development?`);
+  }
+  return await response.json();
+}
+
+async function clearMessages() {
+  await fetch(`${apiRoot}/test/mailbox`, { method: "DELETE" });
+}
+
+function renderMessages(messages: MailboxMessage[]) {
+  if (messages.length === 0) {
+    return html`<p class="mailbox-status">No emails yet. Submit the <a href="/">subscription form</a>.</p>`;
+  }
+  return html`
+    <table>
+      <thead>
+        <tr><th>Date</th><th>Recipient</th><th>Language</th><th>Template</th><th>Link</th></tr>
+      </thead>
+      <tbody>
+        ${messages.map((message) => html`
+          <tr>
+            <td>${new Date(message.date).toLocaleString()}</td>
+            <td>${message.recipient}</td>
+            <td>${message.language ?? ''}</td>
+            <td>${message.template}</td>
+            <td><a href=${message.xOptInUrl} target="_blank">Open control panel</a></td>
+          </tr>`)}
+      </tbody>
+    </table>`;
+}
+
+async function refresh() {
+  const container = document.getElementById("mailbox")!;
+  try {
+    render(renderMessages(await fetchMessages()), container);
+  } catch (error) {
+    render(html`<p class="mailbox-status">${error instanceof Error ? error.message : String(error)}</p>`, container);
+  }
+}
+
+document.getElementById("refresh")!.addEventListener("click", refresh);
+document.getElementById("clear")!.addEventListener("click", async () => {
+  await clearMessages();
+  await refresh();
+});
+refresh();
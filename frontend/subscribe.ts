@@ -4,7 +4,7 @@ import { msg, str } from '@lit/localize';
 import { Captcha, createCaptcha } from "./captcha";
 import { render } from "lit-html";
 
-type SubscriptionStatus = 'expecting' | 'in-progress' | 'try-again' | 'awaiting-confirmation' | 'success' | 'failed';
+type SubscriptionStatus = 'expecting' | 'in-progress' | 'try-again' | 'awaiting-confirmation' | 'queued' | 'success' | 'failed';
 
 let captcha: Captcha | null = null;
 
@@ -85,7 +85,9 @@ async function submitSubscription(form: HTMLFormElement): Promise<{status: Subsc
     }
     const result = await response.json();
     if (result.success) {
-      if (result.doubleOptIn) {
+      if (result.queued) {
+        return {status: 'queued', message: msg(`📨 Thank you! We'll email you shortly to confirm your subscription.`), email: data.email as string};
+      } else if (result.doubleOptIn) {
         return {status: 'awaiting-confirmation', message: msg(`📨 Almost there! We sent you a confirmation email. Check spam folder if you don't see it.`), email: data.email as string};
       } else {
         return {status: 'success', message: msg(`✉️ Subscription successful.`), email: data.email as string};
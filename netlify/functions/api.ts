@@ -1,4 +1,11 @@
 import { app } from "../../backend/api";
+import { connectStore } from "../../backend/store";
 import serverless from "serverless-http";
+import type { Handler, HandlerEvent, HandlerContext } from '@netlify/functions';
 
-export const handler = serverless(app);
+const serverlessHandler = serverless(app);
+
+export const handler: Handler = async (event: HandlerEvent, context: HandlerContext) => {
+  connectStore(event);
+  return serverlessHandler(event, context);
+};
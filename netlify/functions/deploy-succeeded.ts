@@ -1,11 +1,17 @@
-import { initialize } from "../../backend/loops";
+import { getProvider } from "../../backend/provider";
+import { migrate } from "../../backend/migrations";
+import { purgeExpiredNonces } from "../../backend/nonce";
+import { connectStore, getStore } from "../../backend/store";
 import type { Handler, HandlerEvent, HandlerContext } from '@netlify/functions'; 
 
 export const handler :Handler = async (event: HandlerEvent, context: HandlerContext) => {
-  await initialize();
+  connectStore(event);
+  const version = await migrate(getProvider(), getStore());
+  const purged = await purgeExpiredNonces(getStore());
+  console.info(`removed ${purged} expired token records`);
   return {
     statusCode: 200,
     headers: {'Content-Type': 'application/json'},
-    body: JSON.stringify({success: true}),
+    body: JSON.stringify({success: true, version}),
   };
 }
\ No newline at end of file
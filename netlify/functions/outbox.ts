@@ -0,0 +1,20 @@
+import { retryQueuedSubscriptions } from "../../backend/subscription";
+import { retryQueuedWebhooks } from "../../backend/webhooks";
+import { connectStore } from "../../backend/store";
+import { schedule } from '@netlify/functions';
+import type { HandlerEvent } from '@netlify/functions';
+
+// Retry subscriptions the mailing provider failed to accept (see backend/outbox.ts)
+// and webhook deliveries the endpoints failed to accept (see backend/webhooks.ts).
+export const handler = schedule('*/5 * * * *', async (event: HandlerEvent) => {
+  connectStore(event);
+  const subscriptions = await retryQueuedSubscriptions();
+  console.info(`outbox: ${subscriptions.delivered} delivered, ${subscriptions.postponed} postponed, ${subscriptions.dropped} dropped, ${subscriptions.deadLettered} dead-lettered`);
+  const webhooks = await retryQueuedWebhooks();
+  console.info(`webhook outbox: ${webhooks.delivered} delivered, ${webhooks.postponed} postponed, ${webhooks.dropped} dropped, ${webhooks.deadLettered} dead-lettered`);
+  return {
+    statusCode: 200,
+    headers: {'Content-Type': 'application/json'},
+    body: JSON.stringify({success: true, ...subscriptions, webhooks}),
+  };
+});
@@ -0,0 +1,167 @@
+#!/usr/bin/env node
+
+// Carajillo admin command.
+//
+// Usage: carajillo doctor|purge-cache|consent <email> [--url https://carajillo.example.com] [--json]
+//
+// Calls the admin API of the running site, authorized with ADMIN_SECRET.
+// Environment is read from .env in the current directory when present.
+
+const fs = require('fs');
+
+const USAGE = `Usage: carajillo <command> [options]
+
+Commands:
+  doctor        verify the configuration and the mailing provider account setup
+  purge-cache   forget cached mailing lists and confirmation emails, e.g. after changing them in Loops
+  consent <email>
+                print consent records of the contact
+
+Options:
+  --url <url>   site URL (default: $URL or http://localhost:8888)
+  --json        print the raw report
+`;
+
+const SYMBOLS = {
+  ok: '✔',
+  warning: '⚠',
+  error: '✘',
+};
+
+function parseArguments(argv) {
+  const options = { command: undefined, args: [], url: process.env.URL || 'http://localhost:8888', json: false };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--url') {
+      options.url = argv[++i];
+    } else if (arg.startsWith('--url=')) {
+      options.url = arg.slice('--url='.length);
+    } else if (arg === '--json') {
+      options.json = true;
+    } else if (arg === '--help' || arg === '-h') {
+      options.command = 'help';
+    } else if (options.command === undefined) {
+      options.command = arg;
+    } else if (options.command === 'consent' && options.args.length === 0) {
+      options.args.push(arg);
+    } else {
+      throw new Error(`Unexpected argument: ${arg}`);
+    }
+  }
+  return options;
+}
+
+async function adminRequest(options, method, path) {
+  const secret = process.env.ADMIN_SECRET;
+  if (!secret) {
+    throw new Error('ADMIN_SECRET is not set');
+  }
+  const url = new URL(path, options.url);
+  const response = await fetch(url, {
+    method,
+    headers: { Authorization: `Bearer ${secret}`, Accept: 'application/json' },
+  }).catch((error) => {
+    throw new Error(`Cannot connect to ${url.origin}: ${error.cause?.message ?? error.message}`);
+  });
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(`${url} responded ${response.status} ${body.error || response.statusText}${body.reason ? ` (${body.reason})` : ''}`);
+  }
+  return { url, body };
+}
+
+async function doctor(options) {
+  const { url, body } = await adminRequest(options, 'GET', '/api/admin/doctor');
+
+  if (options.json) {
+    console.log(JSON.stringify(body, null, 2));
+  } else {
+    printReport(url.origin, body);
+  }
+  return body.success ? 0 : 1;
+}
+
+async function purgeCache(options) {
+  const { url, body } = await adminRequest(options, 'DELETE', '/api/admin/cache');
+  if (options.json) {
+    console.log(JSON.stringify(body, null, 2));
+  } else {
+    console.log(`Removed ${body.purged} cached value${body.purged === 1 ? '' : 's'} at ${url.origin}`);
+  }
+  if (body.cache === 'memory') {
+    console.warn(`${SYMBOLS.warning} CACHE=memory: only the instance handling the request was purged; ` +
+      'other instances keep their values until CACHE_TTL and CACHE_STALE_WHILE_REVALIDATE pass. Set CACHE=store to purge all of them.');
+  }
+  return 0;
+}
+
+async function consent(options) {
+  const [email] = options.args;
+  if (email === undefined) {
+    throw new Error('Email address is required');
+  }
+  const { body } = await adminRequest(options, 'GET', `/api/admin/contacts/${encodeURIComponent(email)}/consent`);
+  if (options.json) {
+    console.log(JSON.stringify(body, null, 2));
+    return 0;
+  }
+  console.log(`Consent of ${body.email}: ${body.records.length} record${body.records.length === 1 ? '' : 's'}\n`);
+  for (const record of body.records) {
+    const lists = Object.entries(record.mailingLists).filter(([, subscribed]) => subscribed).map(([list]) => list);
+    console.log(`  ${record.timestamp} ${record.action}: ${lists.join(', ') || 'no lists'}`);
+    const details = [
+      record.formUrl && `from ${record.formUrl}`,
+      record.language && `language ${record.language}`,
+      record.captchaScore !== undefined && `CAPTCHA score ${record.captchaScore}`,
+      record.policy.version && `policy ${record.policy.version}`,
+      record.ipHash && `IP ${record.ipHash.slice(0, 12)}…`,
+    ].filter(Boolean);
+    if (details.length > 0) {
+      console.log(`      ${details.join(', ')}`);
+    }
+  }
+  return 0;
+}
+
+function printReport(origin, report) {
+  console.log(`Carajillo doctor: ${origin}\n`);
+  for (const check of report.checks) {
+    console.log(`  ${SYMBOLS[check.status]} ${check.name}: ${check.message}`);
+    if (check.hint && check.status !== 'ok') {
+      console.log(`      ${check.hint}`);
+    }
+  }
+  const count = (status) => report.checks.filter((check) => check.status === status).length;
+  const errors = count('error');
+  const warnings = count('warning');
+  console.log(`\n${errors} error${errors === 1 ? '' : 's'}, ${warnings} warning${warnings === 1 ? '' : 's'}`);
+}
+
+async function main() {
+  if (fs.existsSync('.env')) {
+    process.loadEnvFile('.env');
+  }
+  const options = parseArguments(process.argv.slice(2));
+  switch (options.command) {
+    case 'doctor':
+      return await doctor(options);
+    case 'purge-cache':
+      return await purgeCache(options);
+    case 'consent':
+      return await consent(options);
+    case 'help':
+      process.stdout.write(USAGE);
+      return 0;
+    default:
+      process.stderr.write(USAGE);
+      return 2;
+  }
+}
+
+main().then(
+  (code) => process.exit(code),
+  (error) => {
+    console.error(`carajillo: ${error.message}`);
+    process.exit(2);
+  },
+);
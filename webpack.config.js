@@ -43,6 +43,7 @@ module.exports = {
   entry: {
     'subscribe': path.resolve(__dirname, 'frontend/subscribe.ts'),
     'control-panel': path.resolve(__dirname, 'frontend/control-panel.ts'),
+    'mailbox': path.resolve(__dirname, 'frontend/mailbox.ts'),
   },
   output: {
     path: path.resolve(__dirname, 'frontend/dist'),
@@ -60,6 +61,12 @@ module.exports = {
       template: 'frontend/control-panel.html',
       chunks: ['control-panel'],
     }),
+    new HtmlWebpackPlugin({
+      title: 'Development mailbox',
+      filename: 'mailbox.html',
+      template: 'frontend/mailbox.html',
+      chunks: ['mailbox'],
+    }),
     new HtmlWebpackPlugin({
       filename: '404.html',
       template: 'frontend/404.html',